@@ -0,0 +1,142 @@
+/**
+ * Simulation Event Tests — Validate the run-level event bus.
+ */
+import { describe, it, expect } from "vitest";
+import { LLMClient } from "../llm/client.js";
+import { MockLanguageModel } from "../llm/mock.js";
+import { FrameworkConfig } from "../schemas/config.js";
+import { runFullSimulation } from "../orchestrator.js";
+import { SimulationEventBus } from "../events.js";
+import { ActorAgent } from "../agents/actor.js";
+import { Critic } from "../agents/critic.js";
+import { Mutator } from "../agents/mutator.js";
+import { Provisioner } from "../agents/provisioner.js";
+
+describe("SimulationEventBus", () => {
+    it("reports the whole lifecycle of a run", async () => {
+        const llmClient = new LLMClient(new MockLanguageModel({ seed: 11 }));
+        const config = FrameworkConfig.parse({
+            max_turns_per_episode: 2,
+            epoch_size: 2,
+            shadow_trial_count: 1,
+            mutation_variants: 1,
+            scout_sweep_interval_generations: 10,
+        });
+        const agents = {
+            usa: new ActorAgent({ archetypeId: "usa", immutableCore: "You are the US.", mutableStrategy: "", llmClient }),
+            iran: new ActorAgent({ archetypeId: "iran", immutableCore: "You are Iran.", mutableStrategy: "", llmClient }),
+        };
+        const mutator = new Mutator("mutator", llmClient);
+
+        const events = new SimulationEventBus();
+        const lifecycle: string[] = [];
+        const started = new Set<string>();
+        const completed: string[] = [];
+        const turnEpisodes = new Set<string>();
+        const decisions: { agentId: string; lcb: number; pValue: number }[] = [];
+        const costTotals: number[] = [];
+        events.on("generation:start", ({ generation }) => lifecycle.push(`start:${generation}`));
+        events.on("generation:complete", ({ generation, episodes, summary }) => {
+            lifecycle.push(`complete:${generation}`);
+            expect(summary.episodeCount).toBe(episodes.length);
+        });
+        events.on("episode:start", ({ episodeId }) => started.add(episodeId));
+        events.on("episode:complete", ({ episodeId, kind, record }) => {
+            expect(record.id).toBe(episodeId);
+            if (kind === "epoch") completed.push(episodeId);
+        });
+        events.on("turn:complete", ({ episodeId }) => turnEpisodes.add(episodeId));
+        events.on("mutation:accepted", ({ agentId, lcb, pValue }) => decisions.push({ agentId, lcb, pValue }));
+        events.on("mutation:rejected", ({ agentId, lcb, pValue }) => decisions.push({ agentId, lcb, pValue }));
+        events.on("cost:update", ({ totalTokens }) => costTotals.push(totalTokens));
+
+        const result = await runFullSimulation({
+            config,
+            initialState: { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { global_tension_level: 5 } },
+            agents,
+            judge: new Critic("rubric", "judge", llmClient),
+            mutator,
+            provisioner: new Provisioner("provisioner", llmClient),
+            llmClient,
+            maxGenerations: 2,
+            events,
+        });
+
+        expect(lifecycle).toEqual(["start:0", "complete:0", "start:1", "complete:1"]);
+        expect(completed).toHaveLength(4);
+        for (const episodeId of turnEpisodes) expect(started.has(episodeId)).toBe(true);
+
+        const mutatedGenerations = result.generations.filter((g) => !g.equilibrium).length;
+        expect(decisions).toHaveLength(mutatedGenerations * 2);
+        for (const decision of decisions) {
+            expect(["usa", "iran"]).toContain(decision.agentId);
+            expect(decision.pValue).toBeGreaterThanOrEqual(0);
+        }
+
+        expect(costTotals.length).toBeGreaterThan(0);
+        expect(costTotals.at(-1)).toBe(result.totalTokens);
+        expect([...costTotals].sort((a, b) => a - b)).toEqual(costTotals);
+
+        // The run detaches everything it attached
+        expect(mutator.listenerCount("evolve:decided")).toBe(0);
+        expect(llmClient.costTracker!.listenerCount("record")).toBe(0);
+        expect(events.listenerCount("generation:start")).toBe(1);
+    });
+
+    it("ends a cancelled run with its partial results", async () => {
+        const llmClient = new LLMClient(new MockLanguageModel({ seed: 11 }));
+        const config = FrameworkConfig.parse({
+            max_turns_per_episode: 4,
+            epoch_size: 3,
+            max_concurrency: 1,
+            shadow_trial_count: 1,
+            mutation_variants: 1,
+            scout_sweep_interval_generations: 10,
+        });
+        const agents = {
+            usa: new ActorAgent({ archetypeId: "usa", immutableCore: "You are the US.", mutableStrategy: "", llmClient }),
+            iran: new ActorAgent({ archetypeId: "iran", immutableCore: "You are Iran.", mutableStrategy: "", llmClient }),
+        };
+        const controller = new AbortController();
+        const events = new SimulationEventBus();
+        const completions: string[] = [];
+        events.on("episode:complete", ({ record }) => {
+            completions.push(record.terminationReason);
+            controller.abort();
+        });
+        events.on("generation:complete", () => {
+            throw new Error("A cancelled generation must not complete");
+        });
+
+        const result = await runFullSimulation({
+            config,
+            initialState: { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { global_tension_level: 5 } },
+            agents,
+            judge: new Critic("rubric", "judge", llmClient),
+            mutator: new Mutator("mutator", llmClient),
+            provisioner: new Provisioner("provisioner", llmClient),
+            llmClient,
+            maxGenerations: 3,
+            events,
+            signal: controller.signal,
+        });
+
+        expect(result.terminationReason).toBe("cancelled");
+        expect(result.equilibriumReached).toBe(false);
+        expect(result.generations).toHaveLength(1);
+        expect(result.generations[0].episodeCount).toBe(3);
+        expect(completions.slice(1)).toEqual(["cancelled", "cancelled"]);
+        expect(result.terminationReasons.cancelled).toBe(2);
+    });
+
+    it("subscribe() returns an unsubscribe function", () => {
+        const events = new SimulationEventBus();
+        const seen: number[] = [];
+        const stop = events.subscribe("explorer:scan", ({ generation }) => seen.push(generation));
+
+        events.emit("explorer:scan", { generation: 1, trigger: "sweep", hypotheses: [] });
+        stop();
+        events.emit("explorer:scan", { generation: 2, trigger: "sweep", hypotheses: [] });
+        expect(seen).toEqual([1]);
+    });
+});
@@ -0,0 +1,343 @@
+/**
+ * Fork Tests — Validate branching a recorded episode and storing the branch.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { forkEpisode } from "../fork.js";
+import { runFullSimulation } from "../orchestrator.js";
+import { SqliteDatabase } from "../memory/sqlite.js";
+import { ActorAgent } from "../agents/actor.js";
+import { Critic } from "../agents/critic.js";
+import { Mutator } from "../agents/mutator.js";
+import { Provisioner } from "../agents/provisioner.js";
+import { Capitalizer } from "../agents/capitalizer.js";
+import type { ActionLogEntry } from "../agents/capitalizer.js";
+import { Summarizer } from "../agents/summarizer.js";
+import { InformationDisruptor } from "../agents/disruptor.js";
+import { EnvironmentManager } from "../core/environment.js";
+import { RunRecorder } from "../memory/recorder.js";
+import { FrameworkConfig } from "../schemas/config.js";
+import type { NewAgentProvisioning } from "../schemas/meta.js";
+import { SimulationEventBus } from "../events.js";
+import { LLMClient } from "../llm/client.js";
+import { MockLanguageModel } from "../llm/mock.js";
+import { CostTracker } from "../llm/cost.js";
+
+let db: SqliteDatabase;
+
+beforeEach(() => {
+    db = new SqliteDatabase(":memory:");
+    // Forks rebuild agents from their recorded strategies, so mock every instance
+    vi.spyOn(ActorAgent.prototype, "proposeAction").mockImplementation(async function (this: ActorAgent) {
+        return {
+            proposal: {
+                internal_monologue: "Thinking...",
+                public_dialogue: `${this.id}: ${this.mutableStrategy}`,
+                state_mutations: [{ action: "increment" as const, path: "offer", value: 10 }],
+                propose_resolution: false,
+                abort_episode: false,
+            },
+            tokenUsage: 5,
+        };
+    });
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    db.close();
+});
+
+const mockLLMClient = {
+    model: {} as any,
+    generateObject: vi.fn(),
+    generateText: vi.fn(),
+};
+
+const config = FrameworkConfig.parse({
+    max_turns_per_episode: 4,
+    epoch_size: 1,
+    shadow_trial_count: 1,
+    mutation_variants: 1,
+    creation_patience: 10,
+    scout_sweep_interval_generations: 10,
+});
+
+function makeAgents(): Record<string, ActorAgent> {
+    return Object.fromEntries(["usa", "iran"].map((id) => [
+        id,
+        new ActorAgent({ archetypeId: id, immutableCore: `core ${id}`, mutableStrategy: "hold firm", llmClient: mockLLMClient as any }),
+    ]));
+}
+
+function makeJudge(): Critic {
+    const judge = new Critic("rubric", "judge", mockLLMClient as any);
+    vi.spyOn(judge, "evaluate").mockResolvedValue({ scores: { usa: 1, iran: 2 }, rationales: { usa: "x", iran: "y" } });
+    return judge;
+}
+
+async function recordEpisode(): Promise<string> {
+    const mutator = new Mutator("mutator", mockLLMClient as any);
+    vi.spyOn(mutator, "evolve").mockResolvedValue(null);
+    await runFullSimulation({
+        config,
+        initialState: { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { offer: 0 } },
+        agents: makeAgents(),
+        judge: makeJudge(),
+        mutator,
+        provisioner: new Provisioner("prov", mockLLMClient as any),
+        llmClient: mockLLMClient as any,
+        maxGenerations: 1,
+        database: db,
+    });
+    return (db.raw.prepare("SELECT id FROM Episodes LIMIT 1").get() as { id: string }).id;
+}
+
+describe("forkEpisode", () => {
+    it("replays a recorded episode up to the turn and plays the rest live", async () => {
+        const parentId = await recordEpisode();
+        const events = new SimulationEventBus();
+        const kinds: string[] = [];
+        events.on("turn:complete", ({ kind }) => kinds.push(kind));
+
+        const fork = await forkEpisode({
+            database: db,
+            episodeId: parentId,
+            turn: 2,
+            config,
+            agents: makeAgents(),
+            judge: makeJudge(),
+            llmClient: mockLLMClient as any,
+            variables: { offer: 100 },
+            strategies: { iran: "accept the offer" },
+            events,
+        });
+
+        expect(fork.parentEpisodeId).toBe(parentId);
+        expect(fork.forkTurn).toBe(2);
+        expect(fork.transcript.map((log) => log.turn)).toEqual([0, 1, 2, 3]);
+        expect(fork.transcript[3].public_dialogue).toBe("iran: accept the offer");
+        expect(fork.finalState.variables).toEqual({ offer: 120 });
+        expect(fork.stateHistory.map((snapshot) => snapshot.variables.offer)).toEqual([0, 10, 100, 110, 120]);
+        expect(fork.agentVersions.iran.strategy).toBe("accept the offer");
+        expect(fork.agentVersions.usa.strategy).toBe("hold firm");
+        // Only the live turns are emitted
+        expect(kinds).toEqual(["fork", "fork"]);
+    });
+
+    it("stores the branch linked to its parent", async () => {
+        const parentId = await recordEpisode();
+        const fork = await forkEpisode({
+            database: db,
+            episodeId: parentId,
+            turn: 1,
+            config,
+            agents: makeAgents(),
+            judge: makeJudge(),
+            llmClient: mockLLMClient as any,
+        });
+
+        expect(db.getEpisodeForks(parentId)).toEqual([{ id: fork.id, forkTurn: 1 }]);
+        const stored = db.getEpisode(fork.id)!;
+        expect(stored.parentEpisodeId).toBe(parentId);
+        expect(stored.transcript).toHaveLength(4);
+        expect(stored.finalState.variables).toEqual({ offer: 40 });
+        expect(stored.scores).toEqual({ usa: 1, iran: 2 });
+        // The fork plays the parent's agents, so it reuses their profiles
+        expect(db.raw.prepare("SELECT COUNT(*) AS c FROM AgentProfiles").get()).toEqual({ c: 2 });
+    });
+
+    it("writes a profile only for a swapped strategy", async () => {
+        const parentId = await recordEpisode();
+        await forkEpisode({
+            database: db,
+            episodeId: parentId,
+            turn: 1,
+            config,
+            agents: makeAgents(),
+            judge: makeJudge(),
+            llmClient: mockLLMClient as any,
+            strategies: { iran: "accept the offer" },
+        });
+
+        const rows = db.raw.prepare("SELECT agent_id, created_by FROM AgentProfiles ORDER BY rowid").all();
+        expect(rows).toEqual([
+            { agent_id: "usa", created_by: "human" },
+            { agent_id: "iran", created_by: "human" },
+            { agent_id: "iran", created_by: "human" },
+        ]);
+    });
+
+    it("rejects unknown turns and missing agents", async () => {
+        const parentId = await recordEpisode();
+        const options = { database: db, episodeId: parentId, config, agents: makeAgents(), judge: makeJudge(), llmClient: mockLLMClient as any };
+
+        await expect(forkEpisode({ ...options, turn: 4 })).rejects.toThrow(`Episode ${parentId} has no turn 4; it played turns 0 to 3`);
+        await expect(forkEpisode({ ...options, turn: 1, agents: { usa: options.agents.usa } })).rejects.toThrow("No agent given for iran");
+        await expect(forkEpisode({ ...options, turn: 1, strategies: { egypt: "mediate" } })).rejects.toThrow("egypt did not play episode");
+        await expect(forkEpisode({ ...options, episodeId: "missing", turn: 0 })).rejects.toThrow("Unknown episode: missing");
+    });
+
+    it("plays an unchanged fork exactly as the original continued", async () => {
+        // Every agent answers from what it was given, so any difference in context shows in the transcript
+        vi.mocked(ActorAgent.prototype.proposeAction).mockImplementation(async function (this: ActorAgent, payload) {
+            return {
+                proposal: {
+                    internal_monologue: "Thinking...",
+                    public_dialogue: `${this.id}: ${JSON.stringify(payload)}`,
+                    state_mutations: [{ action: "increment" as const, path: "offer", value: 10 }],
+                    propose_resolution: false,
+                    abort_episode: false,
+                },
+                tokenUsage: 5,
+            };
+        });
+        const describe = (logs: ActionLogEntry[]) => logs.map((log) => `${log.turn}:${log.speakerId}`).join(",");
+        const metaAgents = () => {
+            const capitalizer = new Capitalizer("capitalizer", mockLLMClient as any);
+            vi.spyOn(capitalizer, "analyzeOverlap").mockImplementation(async (_state, logs) => ({
+                overlap_detected: true,
+                confidence_score: 5,
+                strategic_hint: `after ${describe(logs)}`,
+                rationale: "x",
+            }));
+            const summarizer = new Summarizer("summarizer", mockLLMClient as any);
+            vi.spyOn(summarizer, "summarize").mockImplementation(async (previous, pruned) => ({
+                text: `${previous}|${describe(pruned)}`,
+                tokenUsage: 3,
+            }));
+            const infoDisruptor = new InformationDisruptor("news", mockLLMClient as any);
+            vi.spyOn(infoDisruptor, "observe").mockImplementation(async (logs) => ({
+                headline: `news after ${logs.length} entries`,
+                severity: "low" as const,
+                inject_into_transcript: true,
+            }));
+            return { capitalizer, summarizer, infoDisruptor };
+        };
+        const longConfig = FrameworkConfig.parse({
+            ...config,
+            max_turns_per_episode: 8,
+            summarization_frequency: 2,
+            info_disruptor_frequency: 3,
+        });
+        const mutator = new Mutator("mutator", mockLLMClient as any);
+        vi.spyOn(mutator, "evolve").mockResolvedValue(null);
+        await runFullSimulation({
+            config: longConfig,
+            initialState: { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { offer: 0 } },
+            agents: makeAgents(),
+            judge: makeJudge(),
+            mutator,
+            provisioner: new Provisioner("prov", mockLLMClient as any),
+            llmClient: mockLLMClient as any,
+            ...metaAgents(),
+            maxGenerations: 1,
+            database: db,
+        });
+        const parentId = (db.raw.prepare("SELECT id FROM Episodes LIMIT 1").get() as { id: string }).id;
+        const parent = db.getEpisode(parentId)!;
+        expect(parent.summaries.map((summary) => summary.turn)).toEqual([4, 6, 8]);
+
+        // Forked after two summarizations, so the branch must start from pruned logs and a summary
+        const fork = await forkEpisode({
+            database: db,
+            episodeId: parentId,
+            turn: 7,
+            config: longConfig,
+            agents: makeAgents(),
+            judge: makeJudge(),
+            llmClient: mockLLMClient as any,
+            ...metaAgents(),
+        });
+
+        const stored = db.getEpisode(fork.id)!;
+        expect(stored.transcript).toEqual(parent.transcript);
+        expect(stored.summaries).toEqual(parent.summaries);
+        expect(stored.finalState).toEqual(parent.finalState);
+        expect(stored.stateHistory).toEqual(parent.stateHistory);
+        expect(stored.tokenUsage).toBe(parent.tokenUsage);
+    });
+
+    it("plays the branch on the assigned models", async () => {
+        const parentId = await recordEpisode();
+        vi.mocked(ActorAgent.prototype.proposeAction).mockRestore();
+        const llmClient = new LLMClient(new MockLanguageModel(), { costTracker: new CostTracker() });
+        const agents = Object.fromEntries(["usa", "iran"].map((id) => [
+            id,
+            new ActorAgent({ archetypeId: id, immutableCore: `core ${id}`, mutableStrategy: "", llmClient }),
+        ]));
+
+        await forkEpisode({
+            database: db,
+            episodeId: parentId,
+            turn: 2,
+            config,
+            agents,
+            judge: new Critic("rubric", "judge", llmClient),
+            llmClient,
+            modelAssignments: {
+                actors: { iran: { provider: "mock", model: "cheap-actor" } },
+                roles: { judge: { provider: "mock", model: "strong-judge" } },
+            },
+        });
+
+        expect([...llmClient.costTracker!.unpricedModels].sort()).toEqual(["mock/cheap-actor", "mock/strong-judge"]);
+    });
+
+    it("rebuilds created agents and keeps them within their permissions", async () => {
+        const spec: NewAgentProvisioning = {
+            agent_id: "broker",
+            archetype: "broker",
+            turn_injection_logic: "speak_every_2_turns",
+            system_prompt: "You are a broker.",
+            core_goals: ["Mediate"],
+            permissions: {
+                can_modify_fields: ["terms"],
+                cannot_modify_fields: ["offer"],
+                can_abort_episode: false,
+                can_propose_resolution: false,
+                max_state_mutations_per_turn: 1,
+            },
+            design_rationale: "Deadlock",
+        };
+        const env = new EnvironmentManager(
+            { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { offer: 0 } },
+            config,
+        );
+        env.turnOrder = ["usa", "iran"];
+        const agents = { ...makeAgents(), broker: env.mountAgent(spec, mockLLMClient as any) };
+        const [finalState] = await env.runEpisode(agents);
+        const recorder = new RunRecorder(db);
+        recorder.beginGeneration();
+        recorder.syncProfiles(agents, ["usa", "iran"]);
+        const parentId = recorder.recordEpisode({
+            primaryActorIds: ["usa", "iran"],
+            finalState,
+            scores: {},
+            terminationReason: env.terminationReason,
+            actionLogs: env.transcript,
+            stateHistory: env.stateHistory,
+            turnOrder: env.turnOrder,
+            agentVersions: Object.fromEntries(Object.entries(agents).map(([id, agent]) => [
+                id,
+                { strategy: agent.mutableStrategy, hyperparameters: agent.hyperparameters },
+            ])),
+            createdAgents: { broker: spec },
+        });
+
+        const fork = await forkEpisode({
+            database: db,
+            episodeId: parentId,
+            turn: 1,
+            config,
+            agents: makeAgents(),
+            judge: makeJudge(),
+            llmClient: mockLLMClient as any,
+        });
+
+        expect(fork.transcript.map((log) => log.speakerId)).toEqual(["usa", "iran", "broker", "usa"]);
+        expect(fork.transcript[2]).toMatchObject({ public_dialogue: "broker: ", permission_violations: ["offer"] });
+        expect(fork.finalState.variables).toEqual({ offer: 30 });
+        expect(fork.createdAgents).toEqual({ broker: spec });
+        // The rebuilt broker plays as its stored profile describes
+        expect(db.raw.prepare("SELECT COUNT(*) AS c FROM AgentProfiles").get()).toEqual({ c: 3 });
+    });
+});
@@ -0,0 +1,211 @@
+/**
+ * Orchestrator Tests — Validate creation scheduling and Explorer triggers.
+ */
+import { describe, it, expect, vi } from "vitest";
+import { runFullSimulation } from "../orchestrator.js";
+import { SimulationEventBus } from "../events.js";
+import { ActorAgent } from "../agents/actor.js";
+import { Critic } from "../agents/critic.js";
+import { Mutator } from "../agents/mutator.js";
+import { Provisioner } from "../agents/provisioner.js";
+import { Explorer } from "../agents/explorer.js";
+import { FrameworkConfig } from "../schemas/config.js";
+import type { ConvergenceHypothesis, Ingredient } from "../schemas/explorer.js";
+import type { NewAgentProvisioning } from "../schemas/meta.js";
+
+const proposal = {
+    internal_monologue: "...",
+    public_dialogue: "...",
+    state_mutations: [],
+    propose_resolution: false,
+    abort_episode: false,
+};
+
+const mockLLMClient = {
+    model: {} as any,
+    generateObject: vi.fn().mockResolvedValue({ object: proposal, tokenUsage: 10 }),
+    generateText: vi.fn(),
+};
+
+const ingredient: Ingredient = {
+    ingredient_id: "ing_1",
+    category: "model",
+    name: "Cheap long-context model",
+    maturity: "production",
+    accessibility: "public_api",
+    tags: ["context"],
+};
+
+const hypothesis: ConvergenceHypothesis = {
+    hypothesis_id: "hyp_1",
+    title: "Contract Auditor",
+    ingredients_combined: ["ing_1"],
+    synthesis: "Reads every contract at once.",
+    disruption_target: "Legal review",
+    feasibility_score: 7,
+    novelty_score: 6,
+    why_incumbents_missed_it: "Context was too expensive.",
+};
+
+/** Agents, judge and a Mutator that never finds an improvement. */
+function setup() {
+    const judge = new Critic("rubric", "judge", mockLLMClient as any);
+    vi.spyOn(judge, "evaluate").mockResolvedValue({ scores: { agent_a: 0 }, rationales: {} });
+    const mutator = new Mutator("mutator", mockLLMClient as any);
+    vi.spyOn(mutator, "evolve").mockImplementation(async () => {
+        mutator.plateauCounter++;
+        return null;
+    });
+    return {
+        initialState: { turn_number: 0, current_speaker_id: "agent_a", is_terminal: false, variables: {} },
+        agents: {
+            agent_a: new ActorAgent({ archetypeId: "agent_a", immutableCore: "core", mutableStrategy: "", llmClient: mockLLMClient as any }),
+        },
+        judge,
+        mutator,
+        llmClient: mockLLMClient as any,
+    };
+}
+
+describe("runFullSimulation", () => {
+    it("waits creation_cooldown_generations between creation attempts", async () => {
+        const provisioner = new Provisioner("prov", mockLLMClient as any);
+        vi.spyOn(provisioner, "designAgent").mockResolvedValue({
+            agent_id: "broker",
+            archetype: "mediator",
+        } as NewAgentProvisioning);
+        const events = new SimulationEventBus();
+        const designed: number[] = [];
+        events.on("provisioner:designed", ({ generation }) => designed.push(generation));
+
+        await runFullSimulation({
+            ...setup(),
+            config: FrameworkConfig.parse({
+                max_turns_per_episode: 1,
+                epoch_size: 1,
+                creation_patience: 1,
+                creation_cooldown_generations: 2,
+                scout_sweep_interval_generations: 100,
+            }),
+            provisioner,
+            maxGenerations: 7,
+            onCreationApproval: async () => false,
+            events,
+        });
+
+        expect(designed).toEqual([0, 3, 6]);
+    });
+
+    it("enforces created-agent permissions in shadow trials", async () => {
+        const llmClient = {
+            ...mockLLMClient,
+            generateObject: vi.fn().mockResolvedValue({
+                object: { ...proposal, state_mutations: [{ action: "add", path: "concessions.y", value: 1 }] },
+                tokenUsage: 10,
+            }),
+        };
+        const provisioner = new Provisioner("prov", mockLLMClient as any);
+        vi.spyOn(provisioner, "designAgent").mockResolvedValue({
+            agent_id: "broker",
+            archetype: "mediator",
+            turn_injection_logic: "speak_every_1_turns",
+            system_prompt: "Broker",
+            core_goals: [],
+            permissions: {
+                can_modify_fields: ["subsidies"],
+                cannot_modify_fields: [],
+                can_abort_episode: false,
+                can_propose_resolution: false,
+                max_state_mutations_per_turn: 1,
+            },
+            design_rationale: "Test",
+        });
+        const events = new SimulationEventBus();
+        const violations: { kind: string; speakerId: string; violations: string[] }[] = [];
+        events.on("turn:violation", ({ kind, speakerId, violations: paths }) => violations.push({ kind, speakerId, violations: paths }));
+
+        await runFullSimulation({
+            ...setup(),
+            llmClient: llmClient as any,
+            config: FrameworkConfig.parse({
+                max_turns_per_episode: 2,
+                epoch_size: 1,
+                shadow_trial_count: 1,
+                creation_patience: 1,
+                require_human_approval_for_creation: false,
+                scout_sweep_interval_generations: 100,
+                forced_concession_threshold: 5,
+            }),
+            provisioner,
+            maxGenerations: 1,
+            events,
+        });
+
+        expect(violations).toEqual([{ kind: "creation_trial", speakerId: "broker", violations: ["concessions.y"] }]);
+    });
+
+    it("scans on ingested ingredients and injects the hypotheses into later episodes", async () => {
+        const explorer = new Explorer([], "explorer", mockLLMClient as any);
+        // The generation-0 sweep finds nothing
+        vi.spyOn(explorer, "scan").mockResolvedValueOnce([]).mockResolvedValue([hypothesis]);
+        const events = new SimulationEventBus();
+        const scans: { generation: number; trigger: string }[] = [];
+        const startingHypotheses: unknown[] = [];
+        events.on("explorer:scan", ({ generation, trigger }) => scans.push({ generation, trigger }));
+        events.on("generation:start", ({ generation }) => {
+            if (generation === 1) explorer.ingestIngredient(ingredient);
+        });
+        events.on("generation:complete", ({ episodes }) => {
+            startingHypotheses.push(episodes[0].finalState.scout_hypotheses);
+        });
+
+        await runFullSimulation({
+            ...setup(),
+            config: FrameworkConfig.parse({
+                max_turns_per_episode: 1,
+                epoch_size: 1,
+                creation_patience: 100,
+                scout_sweep_interval_generations: 100,
+            }),
+            provisioner: new Provisioner("prov", mockLLMClient as any),
+            explorer,
+            maxGenerations: 3,
+            events,
+        });
+
+        expect(scans).toEqual([{ generation: 0, trigger: "sweep" }, { generation: 1, trigger: "ingredient" }]);
+        expect(startingHypotheses[0]).toBeUndefined();
+        expect(startingHypotheses[2]).toEqual([
+            { title: "Contract Auditor", feasibility_score: 7, disruption_target: "Legal review" },
+        ]);
+        expect(explorer.listenerCount("ingredient:ingested")).toBe(0);
+    });
+
+    it("does not scan on new ingredients when scout_on_new_ingredient is off", async () => {
+        const explorer = new Explorer([], "explorer", mockLLMClient as any);
+        const scan = vi.spyOn(explorer, "scan").mockResolvedValue([hypothesis]);
+        const events = new SimulationEventBus();
+        events.on("generation:start", ({ generation }) => {
+            if (generation === 1) explorer.ingestIngredient(ingredient);
+        });
+
+        await runFullSimulation({
+            ...setup(),
+            config: FrameworkConfig.parse({
+                max_turns_per_episode: 1,
+                epoch_size: 1,
+                creation_patience: 100,
+                scout_sweep_interval_generations: 100,
+                scout_on_new_ingredient: false,
+            }),
+            provisioner: new Provisioner("prov", mockLLMClient as any),
+            explorer,
+            maxGenerations: 2,
+            events,
+        });
+
+        // Only the generation-0 sweep
+        expect(scan).toHaveBeenCalledTimes(1);
+        expect(explorer.ingredients).toHaveLength(1);
+    });
+});
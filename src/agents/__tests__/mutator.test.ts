@@ -0,0 +1,142 @@
+/**
+ * Mutator Tests — Validate semantic memory recall in the mutation prompt.
+ */
+import { describe, it, expect, vi } from "vitest";
+import { Mutator } from "../../agents/mutator.js";
+import type { EpisodeRecord } from "../../core/episode.js";
+import { ActorAgent } from "../../agents/actor.js";
+import type { VectorStore } from "../../memory/vector.js";
+
+const mockLLMClient = {
+    model: {} as any,
+    generateObject: vi.fn(),
+    generateText: vi.fn(),
+};
+
+const config = {
+    mutation_variants: 1,
+    acceptance_lcb_lambda: 1,
+    improvement_margin: 0.1,
+    acceptance_p_value_threshold: 0.05,
+    mutation_excerpt_token_budget: 800,
+} as any;
+
+function makeEpisode(score: number, terminationReason: string): EpisodeRecord {
+    return {
+        id: `ep-${score}`,
+        generation: 0,
+        finalState: { turn_number: 3, current_speaker_id: "usa", is_terminal: true, variables: { tension: 7 } },
+        scores: { usa: score },
+        rationales: { usa: "Judged." },
+        terminationReason,
+        transcript: [],
+        tokenUsage: 100,
+        turnCount: 3,
+        agentVersions: { usa: { strategy: "hardline", hyperparameters: {} } },
+    };
+}
+
+function makeEpoch(): EpisodeRecord[] {
+    return [makeEpisode(-3, "abort_episode"), makeEpisode(2, "resolution_proposed")];
+}
+
+describe("Mutator — vector memory", () => {
+    it("recalls past failures and successes into the prompt and stores the epoch", async () => {
+        const vectorMemory = {
+            query: vi.fn(async ({ where }: { where: any }) => {
+                const isFailure = "$lt" in where.$and[1].judge_score;
+                return {
+                    ids: [["m1"]],
+                    documents: [[isFailure ? "threatened sanctions" : "offered phased relief"]],
+                    metadatas: [[{ judge_score: isFailure ? -4 : 3, termination_reason: "max_turns" }]],
+                };
+            }),
+            add: vi.fn(async () => {}),
+        };
+        mockLLMClient.generateObject.mockResolvedValue({
+            object: { variants: [{ variant_id: "v1", strategy_text: "new", hyperparameters: {} }] },
+            tokenUsage: 10,
+        });
+
+        const mutator = new Mutator("mutator", mockLLMClient as any, vectorMemory as unknown as VectorStore);
+        const agent = new ActorAgent({ archetypeId: "usa", immutableCore: "core", mutableStrategy: "hardline", llmClient: mockLLMClient as any });
+        await mutator.evolve(agent, makeEpoch(), config, async () => [0, 0]);
+
+        const prompt = JSON.parse(mockLLMClient.generateObject.mock.calls[0][2]);
+        expect(prompt.past_failures).toEqual([{ summary: "threatened sanctions", judge_score: -4, termination_reason: "max_turns" }]);
+        expect(prompt.past_successes[0].summary).toBe("offered phased relief");
+        expect(vectorMemory.query.mock.calls[0][0].where.$and[0]).toEqual({ agent_archetype: "usa" });
+
+        expect(vectorMemory.add).toHaveBeenCalledTimes(2);
+        const stored = vectorMemory.add.mock.calls.map((c: any[]) => c[0].metadata);
+        expect(stored).toEqual([
+            { agent_archetype: "usa", judge_score: -3, termination_reason: "abort_episode" },
+            { agent_archetype: "usa", judge_score: 2, termination_reason: "resolution_proposed" },
+        ]);
+
+        // Record IDs depend only on the episode and agent, so reruns store the same ones
+        // and different episodes never share one
+        const ids = vectorMemory.add.mock.calls.map((c: any[]) => c[0].id);
+        vectorMemory.add.mockClear();
+        await mutator.evolve(agent, makeEpoch(), config, async () => [0, 0]);
+        expect(vectorMemory.add.mock.calls.map((c: any[]) => c[0].id)).toEqual(ids);
+        expect(new Set(ids).size).toBe(2);
+    });
+
+    it("leaves the prompt unchanged without vector memory", async () => {
+        mockLLMClient.generateObject.mockClear();
+        const mutator = new Mutator("mutator", mockLLMClient as any);
+        const agent = new ActorAgent({ archetypeId: "usa", immutableCore: "core", mutableStrategy: "hardline", llmClient: mockLLMClient as any });
+        await mutator.evolve(agent, makeEpoch(), config, async () => [0, 0]);
+
+        const prompt = JSON.parse(mockLLMClient.generateObject.mock.calls[0][2]);
+        expect(prompt).not.toHaveProperty("past_failures");
+        expect(prompt).not.toHaveProperty("past_successes");
+    });
+});
+
+describe("Mutator — failure context", () => {
+    const turn = (n: number, speakerId: string, text: string) => ({
+        turn: n,
+        speakerId,
+        public_dialogue: text,
+        internal_monologue: `${speakerId} thinks ${n}`,
+        state_mutations: [{ action: "set", path: `variables.t${n}`, value: n }],
+    });
+
+    it("sends the judge rationale, termination reason and transcript excerpts", async () => {
+        mockLLMClient.generateObject.mockClear();
+        const failing = {
+            ...makeEpisode(-4, "abort_episode"),
+            rationales: { usa: "Demanded full sanctions relief up front." },
+            transcript: [turn(0, "usa", "We demand everything."), turn(1, "iran", "Then we walk."), turn(2, "usa", "Final offer."), turn(3, "iran", "Goodbye.")],
+        };
+        const mutator = new Mutator("mutator", mockLLMClient as any);
+        const agent = new ActorAgent({ archetypeId: "usa", immutableCore: "core", mutableStrategy: "hardline", llmClient: mockLLMClient as any });
+        await mutator.evolve(agent, [failing, makeEpisode(3, "agreement")], config, async () => [0, 0]);
+
+        const prompt = JSON.parse(mockLLMClient.generateObject.mock.calls[0][2]);
+        const [episode] = prompt.failing_episodes;
+        expect(episode).toMatchObject({
+            agent_score: -4,
+            judge_rationale: "Demanded full sanctions relief up front.",
+            termination_reason: "abort_episode",
+        });
+        expect(episode.transcript_excerpts.map((e: any) => [e.turn, e.speaker])).toEqual([[0, "usa"], [2, "usa"], [3, "iran"]]);
+        expect(episode.transcript_excerpts[0]).toMatchObject({ thought: "usa thinks 0", changed: ["variables.t0"] });
+        expect(episode.transcript_excerpts[2]).not.toHaveProperty("thought");
+    });
+
+    it("keeps excerpts within the token budget, newest first", async () => {
+        mockLLMClient.generateObject.mockClear();
+        const longTurns = Array.from({ length: 10 }, (_, i) => turn(i, "usa", "x".repeat(2000)));
+        const failing = { ...makeEpisode(-4, "timeout"), transcript: longTurns };
+        const mutator = new Mutator("mutator", mockLLMClient as any);
+        const agent = new ActorAgent({ archetypeId: "usa", immutableCore: "core", mutableStrategy: "hardline", llmClient: mockLLMClient as any });
+        await mutator.evolve(agent, [failing], { ...config, mutation_excerpt_token_budget: 400 }, async () => [0, 0]);
+
+        const excerpts = JSON.parse(mockLLMClient.generateObject.mock.calls[0][2]).failing_episodes[0].transcript_excerpts;
+        expect(excerpts.map((e: any) => e.turn)).toEqual([8, 9]);
+        expect(excerpts[0].said.length).toBeLessThan(700);
+    });
+});
@@ -7,6 +7,7 @@
  * @see docs/core_system_prompts.md §1 — The Tripartite Prompt Architecture
  */
 import type { LLMClient } from "../llm/client.js";
+import type { Tokenizer } from "../core/tokenizer.js";
 import type { GenericStateObject } from "../schemas/state.js";
 import { ActionProposal } from "../schemas/actions.js";
 import type { ActionProposal as ActionProposalType } from "../schemas/actions.js";
@@ -24,6 +25,10 @@ export interface ActorAgentOptions {
         temperature?: number;
         frequency_penalty?: number;
     };
+    /** Token budget for this agent's context. Overrides `context_token_budget`. */
+    contextTokenBudget?: number;
+    /** Tokenizer matching this agent's model. Default: approximateTokenizer */
+    tokenizer?: Tokenizer;
 }
 
 export class ActorAgent {
@@ -36,8 +41,15 @@ export class ActorAgent {
     /** The mutable strategy text — subject to mutation. */
     public mutableStrategy: string;
 
+    /** LLM hyperparameters this agent samples with. */
+    public readonly hyperparameters: { temperature?: number; frequency_penalty?: number };
+
+    /** Context token budget for this agent, if it overrides the config. */
+    public readonly contextTokenBudget?: number;
+    /** Tokenizer used to budget this agent's context. */
+    public readonly tokenizer?: Tokenizer;
+
     private llmClient: LLMClient;
-    private hyperparameters: { temperature?: number; frequency_penalty?: number };
     private retryContext: string | null = null;
 
     constructor(opts: ActorAgentOptions) {
@@ -47,6 +59,8 @@ export class ActorAgent {
         this.systemPrompt = `${opts.immutableCore}\n${opts.mutableStrategy}`;
         this.llmClient = opts.llmClient;
         this.hyperparameters = opts.hyperparameters ?? {};
+        this.contextTokenBudget = opts.contextTokenBudget;
+        this.tokenizer = opts.tokenizer;
     }
 
     /**
@@ -58,7 +72,10 @@ export class ActorAgent {
      *
      * @see docs/engineering_implementation.md §6 — ActorAgent.proposeAction()
      */
-    async proposeAction(currentState: GenericStateObject): Promise<{ proposal: ActionProposalType; tokenUsage: number }> {
+    async proposeAction(
+        currentState: GenericStateObject,
+        signal?: AbortSignal,
+    ): Promise<{ proposal: ActionProposalType; tokenUsage: number }> {
         // Build 3-layer prompt (see docs/core_system_prompts.md §1)
         let systemContent = this.systemPrompt;
         if (this.retryContext) {
@@ -74,6 +91,8 @@ export class ActorAgent {
             {
                 temperature: this.hyperparameters.temperature ?? 0.7,
                 frequencyPenalty: this.hyperparameters.frequency_penalty ?? 0.0,
+                role: `actor:${this.id}`,
+                abortSignal: signal,
             },
         );
 
@@ -89,6 +108,24 @@ export class ActorAgent {
         this.retryContext = errorMessage;
     }
 
+    /**
+     * Create a copy of this agent that calls a different LLM client, optionally
+     * starting from a different temperature. Strategy and core are unchanged.
+     */
+    withLLMClient(llmClient: LLMClient, temperature?: number): ActorAgent {
+        return new ActorAgent({
+            archetypeId: this.id,
+            immutableCore: this.immutableCore,
+            mutableStrategy: this.mutableStrategy,
+            llmClient,
+            hyperparameters: temperature === undefined
+                ? this.hyperparameters
+                : { ...this.hyperparameters, temperature },
+            contextTokenBudget: this.contextTokenBudget,
+            tokenizer: this.tokenizer,
+        });
+    }
+
     /**
      * Create a mutated copy of this agent with a new strategy and hyperparameters.
      * The immutable core is preserved.
@@ -104,6 +141,8 @@ export class ActorAgent {
             mutableStrategy: newStrategy,
             llmClient: this.llmClient,
             hyperparameters: newHyperparameters ?? this.hyperparameters,
+            contextTokenBudget: this.contextTokenBudget,
+            tokenizer: this.tokenizer,
         });
     }
 }
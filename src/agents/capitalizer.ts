@@ -19,12 +19,14 @@ export interface ActionLogEntry {
     speakerId: string;
     internal_monologue?: string;
     public_dialogue?: string;
+    /** Tokens consumed by the speaker on this turn. */
+    token_usage?: number;
     [key: string]: unknown;
 }
 
 export class Capitalizer {
     private systemPrompt: string;
-    private llmClient: LLMClient;
+    public llmClient: LLMClient;
 
     constructor(systemPrompt: string, llmClient: LLMClient) {
         this.systemPrompt = systemPrompt;
@@ -42,6 +44,7 @@ export class Capitalizer {
     async analyzeOverlap(
         currentState: GenericStateObject,
         recentLogBook: ActionLogEntry[],
+        signal?: AbortSignal,
     ): Promise<CapitalizerHintType> {
         const prompt = JSON.stringify({
             current_state: currentState,
@@ -56,7 +59,7 @@ export class Capitalizer {
             CapitalizerHint,
             this.systemPrompt,
             prompt,
-            { temperature: 0.6 },
+            { temperature: 0.6, role: "capitalizer", abortSignal: signal },
         );
 
         // Programmatic Anti-Hallucination Privacy Filter
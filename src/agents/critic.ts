@@ -16,7 +16,7 @@ import type { JudgeEvaluation as JudgeEvaluationType } from "../schemas/actions.
 export class Critic {
     private rubric: string;
     private systemPrompt: string;
-    private llmClient: LLMClient;
+    public llmClient: LLMClient;
 
     constructor(rubric: string, systemPrompt: string, llmClient: LLMClient) {
         this.rubric = rubric;
@@ -35,6 +35,7 @@ export class Critic {
         initialState: GenericStateObject,
         finalState: GenericStateObject,
         transcript: object[],
+        signal?: AbortSignal,
     ): Promise<{ scores: Record<string, number>; rationales: Record<string, string> }> {
         const prompt = JSON.stringify({
             scoring_rubric: this.rubric,
@@ -49,7 +50,7 @@ export class Critic {
             this.systemPrompt,
             prompt,
             // Low temperature for consistent, rigorous evaluation
-            { temperature: 0.3 },
+            { temperature: 0.3, role: "judge", abortSignal: signal },
         );
 
         // Transform structured array back into records for internal framework consumption
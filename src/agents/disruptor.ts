@@ -17,13 +17,13 @@ import type {
 
 export interface DisruptorAgent {
     readonly type: "information" | "tension";
-    observe(transcript: object[], state: GenericStateObject): Promise<unknown>;
+    observe(transcript: object[], state: GenericStateObject, signal?: AbortSignal): Promise<unknown>;
 }
 
 export class InformationDisruptor implements DisruptorAgent {
     public readonly type = "information";
     private systemPrompt: string;
-    private llmClient: LLMClient;
+    public llmClient: LLMClient;
 
     constructor(systemPrompt: string, llmClient: LLMClient) {
         this.systemPrompt = systemPrompt;
@@ -33,6 +33,7 @@ export class InformationDisruptor implements DisruptorAgent {
     async observe(
         transcript: object[],
         state: GenericStateObject,
+        signal?: AbortSignal,
     ): Promise<DisruptorReportType> {
         const prompt = JSON.stringify({
             recent_transcript: transcript.slice(-5),
@@ -43,7 +44,7 @@ export class InformationDisruptor implements DisruptorAgent {
             DisruptorReport,
             this.systemPrompt,
             prompt,
-            { temperature: 0.9 },
+            { temperature: 0.9, role: "info_disruptor", abortSignal: signal },
         );
         return result.object;
     }
@@ -52,7 +53,7 @@ export class InformationDisruptor implements DisruptorAgent {
 export class TensionDisruptor implements DisruptorAgent {
     public readonly type = "tension";
     private systemPrompt: string;
-    private llmClient: LLMClient;
+    public llmClient: LLMClient;
 
     constructor(systemPrompt: string, llmClient: LLMClient) {
         this.systemPrompt = systemPrompt;
@@ -62,6 +63,7 @@ export class TensionDisruptor implements DisruptorAgent {
     async observe(
         transcript: object[],
         state: GenericStateObject,
+        signal?: AbortSignal,
     ): Promise<TensionUpdateType> {
         const prompt = JSON.stringify({
             recent_transcript: transcript.slice(-5),
@@ -72,7 +74,7 @@ export class TensionDisruptor implements DisruptorAgent {
             TensionUpdate,
             this.systemPrompt,
             prompt,
-            { temperature: 0.5 },
+            { temperature: 0.5, role: "tension_disruptor", abortSignal: signal },
         );
         return result.object;
     }
@@ -8,6 +8,7 @@
  * @see docs/api_and_interfaces.md §1H — The Explorer
  * @see docs/explorer_agent.md — Full design
  */
+import { EventEmitter } from "events";
 import type { LLMClient } from "../llm/client.js";
 import { Ingredient, ConvergenceHypothesis } from "../schemas/explorer.js";
 import type {
@@ -15,25 +16,37 @@ import type {
     ConvergenceHypothesis as ConvergenceHypothesisType,
 } from "../schemas/explorer.js";
 import { z } from "zod/v4";
+import { createSeededRandom, hashString } from "../core/random.js";
+import type { RandomSource } from "../core/random.js";
+import { RunCostLimitExceededError, RunCancelledError } from "../errors/index.js";
 
 /** Schema for the Explorer's batch scan output. */
 const ExplorerScanOutput = z.object({
     hypotheses: z.array(ConvergenceHypothesis),
 });
 
-export class Explorer {
+/** Events emitted by the Explorer. */
+export interface ExplorerEvents {
+    "ingredient:ingested": [IngredientType];
+}
+
+export class Explorer extends EventEmitter<ExplorerEvents> {
     public ingredients: IngredientType[];
     private systemPrompt: string;
-    private llmClient: LLMClient;
+    public llmClient: LLMClient;
+    /** Source for fallback hypothesis ids. The orchestrator reseeds it from the run seed. */
+    public random: RandomSource;
 
     constructor(
         ingredientGraph: IngredientType[],
         systemPrompt: string,
         llmClient: LLMClient,
     ) {
+        super();
         this.ingredients = ingredientGraph;
         this.systemPrompt = systemPrompt;
         this.llmClient = llmClient;
+        this.random = createSeededRandom(hashString(systemPrompt));
     }
 
     /**
@@ -42,7 +55,7 @@ export class Explorer {
      *
      * @see docs/explorer_agent.md §4 — The Convergence Detection Algorithm
      */
-    async scan(): Promise<ConvergenceHypothesisType[]> {
+    async scan(signal?: AbortSignal): Promise<ConvergenceHypothesisType[]> {
         const prompt = JSON.stringify({
             available_ingredients: this.ingredients,
             task: "Analyze these ingredients and identify novel products or capabilities that could be built by combining them but do NOT currently exist on the market.",
@@ -54,14 +67,15 @@ export class Explorer {
                 this.systemPrompt,
                 prompt,
                 // Higher temperature for creative hypothesis generation
-                { temperature: 0.9 },
+                { temperature: 0.9, role: "explorer", abortSignal: signal },
             );
             return result.object.hypotheses;
         } catch (error) {
+            if (error instanceof RunCostLimitExceededError || error instanceof RunCancelledError) throw error;
             console.warn("Explorer failed to generate hypothesis. Using local fallback.", error);
             // Deterministic local fallback
             return [{
-                hypothesis_id: `hyp_fallback_${Date.now()}`,
+                hypothesis_id: `hyp_fallback_${Math.floor(this.random() * 0x100000000).toString(16)}`,
                 title: "Fallback Convergence",
                 ingredients_combined: this.ingredients.length > 0 ? [this.ingredients[0].ingredient_id] : [],
                 synthesis: "A generic capability built from available parts.",
@@ -75,8 +89,9 @@ export class Explorer {
     }
 
     /**
-     * Add a new ingredient to the graph.
-     * May trigger an Explorer scan if scout_on_new_ingredient is enabled.
+     * Add a new ingredient to the graph and emit `ingredient:ingested`.
+     * During a run, the orchestrator answers with a scan when
+     * scout_on_new_ingredient is enabled.
      *
      * @see docs/explorer_agent.md §6 — Scheduling Triggers (Event-driven)
      */
@@ -85,5 +100,6 @@ export class Explorer {
         // Enforced by docs/safety_and_sandboxing.md §2A — Strict Schema Validation
         Ingredient.parse(ingredient);
         this.ingredients.push(ingredient);
+        this.emit("ingredient:ingested", ingredient);
     }
 }
@@ -10,11 +10,14 @@ export type { DisruptorAgent } from "./disruptor.js";
 export { Capitalizer } from "./capitalizer.js";
 export type { ActionLogEntry } from "./capitalizer.js";
 
+export { Summarizer } from "./summarizer.js";
+
 export { Critic } from "./critic.js";
 
 export { Mutator } from "./mutator.js";
-export type { EpochResult } from "./mutator.js";
+export type { MutatorEvents } from "./mutator.js";
 
 export { Provisioner } from "./provisioner.js";
 
 export { Explorer } from "./explorer.js";
+export type { ExplorerEvents } from "./explorer.js";
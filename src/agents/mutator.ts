@@ -14,19 +14,62 @@
  * @see docs/self_improvement_loop.md — The full pipeline
  * @see docs/evaluation_and_math.md §2 — Statistical Thresholds
  */
+import { EventEmitter } from "events";
 import type { LLMClient } from "../llm/client.js";
 import type { ActorAgent } from "./actor.js";
-import type { GenericStateObject } from "../schemas/state.js";
+import type { EpisodeRecord } from "../core/episode.js";
+import type { ActionLogEntry } from "./capitalizer.js";
+import { approximateTokenizer } from "../core/tokenizer.js";
 import type { FrameworkConfig } from "../schemas/config.js";
+import type { VectorStore } from "../memory/vector.js";
 import { MutatorProposal } from "../schemas/meta.js";
 import { mean, lowerConfidenceBound, mannWhitneyUTest } from "../core/statistics.js";
+import { v5 as uuidv5 } from "uuid";
 
-/** Result of a completed episode: [finalState, scoresMap, terminationReason?] */
-export type EpochResult = [GenericStateObject, Record<string, number>, string?];
+/** A past strategy/outcome recalled from vector memory for the mutation prompt. */
+interface RecalledOutcome {
+    summary: string;
+    judge_score?: number;
+    termination_reason?: string;
+}
+
+/** How many similar past failures and successes to recall per mutation. */
+const RECALL_LIMIT = 5;
+
+/** Longest dialogue or monologue quoted in a transcript excerpt, in characters. */
+const MAX_EXCERPT_CHARS = 600;
 
-export class Mutator {
-    private llmClient: LLMClient;
+/** UUID namespace of vector memory record IDs. */
+const VECTOR_RECORD_NAMESPACE = "e5cdec65-2a73-4883-b04f-6906dd084703";
+
+/** One quoted turn from a failing episode. */
+interface TranscriptExcerpt {
+    turn: number;
+    speaker: string;
+    said: string;
+    /** The agent's own internal monologue. Never included for other speakers. */
+    thought?: string;
+    changed: string[];
+}
+
+/** Events emitted by the Mutator while it evolves an agent. */
+export interface MutatorEvents {
+    "variants:generated": [{ agent: ActorAgent; variants: ActorAgent[] }];
+    /** Phase C outcome. `variant` is the best surviving variant, accepted or not. */
+    "evolve:decided": [{
+        agent: ActorAgent;
+        variant: ActorAgent | null;
+        accepted: boolean;
+        lcb: number;
+        pValue: number;
+        baselineMean: number;
+    }];
+}
+
+export class Mutator extends EventEmitter<MutatorEvents> {
+    public llmClient: LLMClient;
     private systemPrompt: string;
+    private vectorMemory?: VectorStore;
     /**
      * Tracks consecutive generations where no mutation beat the baseline.
      * Used by the Provisioner trigger formula.
@@ -34,9 +77,16 @@ export class Mutator {
      */
     public plateauCounter: number = 0;
 
-    constructor(systemPrompt: string, llmClient: LLMClient) {
+    /**
+     * @param vectorMemory Optional semantic memory. When provided, every evolved
+     *   epoch is stored and similar past failures/successes are recalled into the
+     *   mutation prompt. Must already be initialized via `init()`.
+     */
+    constructor(systemPrompt: string, llmClient: LLMClient, vectorMemory?: VectorStore) {
+        super();
         this.systemPrompt = systemPrompt;
         this.llmClient = llmClient;
+        this.vectorMemory = vectorMemory;
     }
 
     /**
@@ -47,30 +97,53 @@ export class Mutator {
      */
     async evolve(
         agent: ActorAgent,
-        epochResults: EpochResult[],
+        episodes: EpisodeRecord[],
         config: FrameworkConfig,
         /**
          * A function to run shadow trials. This is injected to avoid circular
          * dependencies with EnvironmentManager.
          */
         runShadowTrial: (variant: ActorAgent, isFastPrune?: boolean) => Promise<number[]>,
+        signal?: AbortSignal,
     ): Promise<ActorAgent | null> {
         // --- Phase A: Generation ---
         // Identify worst 20% of episodes for THIS specific agent
         // Enforced by docs/self_improvement_loop.md §3A — Phase A: Generation
-        const sorted = [...epochResults].sort((a, b) => (a[1][agent.id] ?? 0) - (b[1][agent.id] ?? 0));
+        const sorted = [...episodes].sort((a, b) => (a.scores[agent.id] ?? 0) - (b.scores[agent.id] ?? 0));
         const failingSlice = sorted.slice(0, Math.ceil(sorted.length * 0.2));
 
-        const failureSummary = failingSlice.map(([state, scores]) => ({
-            final_state: state,
-            agent_score: scores[agent.id] ?? 0,
+        const failureSummary = failingSlice.map((episode) => ({
+            agent_score: episode.scores[agent.id] ?? 0,
+            judge_rationale: episode.rationales[agent.id] ?? "",
+            termination_reason: episode.terminationReason,
+            final_state: episode.finalState,
+            transcript_excerpts: excerptTranscript(episode.transcript, agent.id, config.mutation_excerpt_token_budget),
         }));
 
+        // Query semantic memory for similar outcomes from earlier generations,
+        // then store this epoch so later generations can learn from it.
+        // Enforced by docs/data_and_memory_schemas.md §2 — The In-Memory Query Loop
+        let memory: { past_failures: RecalledOutcome[]; past_successes: RecalledOutcome[] } | undefined;
+        const vectorMemory = this.vectorMemory;
+        if (vectorMemory) {
+            const queryText = JSON.stringify({
+                strategy: agent.mutableStrategy,
+                failing_episodes: failureSummary,
+            });
+            memory = {
+                past_failures: await this.recall(vectorMemory, agent, queryText, { $lt: 0 }),
+                past_successes: await this.recall(vectorMemory, agent, queryText, { $gt: 0 }),
+            };
+            await this.remember(vectorMemory, agent, episodes);
+        }
+
         // Generate mutation variants via the Mutator LLM
         const prompt = JSON.stringify({
+            instruction: "Diagnose each failing episode from its judge_rationale, termination_reason and transcript_excerpts. Every variant must target the failure mode you found.",
             agent_id: agent.id,
             current_strategy: agent.mutableStrategy,
             failing_episodes: failureSummary,
+            ...(memory ?? {}),
             mutation_count: config.mutation_variants,
         });
 
@@ -78,7 +151,7 @@ export class Mutator {
             MutatorProposal,
             this.systemPrompt,
             prompt,
-            { temperature: 0.8 },
+            { temperature: 0.8, role: "mutator", abortSignal: signal },
         );
 
         // Create ActorAgent instances for each variant
@@ -88,6 +161,7 @@ export class Mutator {
                 frequency_penalty: v.hyperparameters.frequency_penalty,
             }),
         );
+        this.emit("variants:generated", { agent, variants });
 
         // --- Phase B: Shadow Trials (The Arena / Successive Halving) ---
         // Enforced by docs/self_improvement_loop.md §3B — Phase B: Shadow Trials
@@ -112,7 +186,7 @@ export class Mutator {
         let bestVariant: ActorAgent | null = null;
         let bestLCB = -Infinity;
         let bestShadowScores: number[] = [];
-        const baselineScores = epochResults.map((r) => r[1][agent.id] ?? 0);
+        const baselineScores = episodes.map((episode) => episode.scores[agent.id] ?? 0);
         const baselineScore = mean(baselineScores);
 
         for (const variant of survivors) {
@@ -129,11 +203,19 @@ export class Mutator {
         // Enforced by docs/evaluation_and_math.md §2 — Acceptance Criteria (LCB)
         const delta = config.improvement_margin;
         const pValue = mannWhitneyUTest(bestShadowScores, baselineScores).pValue;
-        if (
-            bestVariant &&
+        const accepted =
+            bestVariant !== null &&
             bestLCB > baselineScore + delta &&
-            pValue < config.acceptance_p_value_threshold
-        ) {
+            pValue < config.acceptance_p_value_threshold;
+        this.emit("evolve:decided", {
+            agent,
+            variant: bestVariant,
+            accepted,
+            lcb: bestLCB,
+            pValue,
+            baselineMean: baselineScore,
+        });
+        if (accepted) {
             // Acceptance: statistically significant improvement
             this.plateauCounter = 0;
             return bestVariant;
@@ -144,6 +226,61 @@ export class Mutator {
         return null;
     }
 
+    /**
+     * Retrieve this agent's past outcomes most similar to the query,
+     * restricted by a judge_score filter (e.g. `{ $lt: 0 }` for failures).
+     */
+    private async recall(
+        vectorMemory: VectorStore,
+        agent: ActorAgent,
+        queryText: string,
+        scoreFilter: Record<string, number>,
+    ): Promise<RecalledOutcome[]> {
+        const results = await vectorMemory.query({
+            queryText,
+            nResults: RECALL_LIMIT,
+            where: { $and: [{ agent_archetype: agent.id }, { judge_score: scoreFilter }] },
+        });
+
+        const documents = results.documents[0] ?? [];
+        const metadatas = results.metadatas[0] ?? [];
+        return documents.flatMap((document, i) => {
+            if (!document) return [];
+            const metadata = metadatas[i] ?? {};
+            return [{
+                summary: document,
+                judge_score: metadata.judge_score as number | undefined,
+                termination_reason: metadata.termination_reason as string | undefined,
+            }];
+        });
+    }
+
+    /**
+     * Store each episode's strategy/outcome pair for this agent. Record IDs are
+     * derived from the episode and agent IDs, so each pair is stored under its own ID.
+     * @see docs/data_and_memory_schemas.md §2 — The Embedded Strategy Object
+     */
+    private async remember(vectorMemory: VectorStore, agent: ActorAgent, episodes: EpisodeRecord[]): Promise<void> {
+        for (const episode of episodes) {
+            await vectorMemory.add({
+                id: uuidv5(`${episode.id}:${agent.id}`, VECTOR_RECORD_NAMESPACE),
+                document: JSON.stringify({
+                    strategy: agent.mutableStrategy,
+                    outcome: {
+                        agent_score: episode.scores[agent.id] ?? 0,
+                        termination_reason: episode.terminationReason,
+                        final_variables: episode.finalState.variables,
+                    },
+                }),
+                metadata: {
+                    agent_archetype: agent.id,
+                    judge_score: episode.scores[agent.id] ?? 0,
+                    termination_reason: episode.terminationReason,
+                },
+            });
+        }
+    }
+
     /**
      * Returns true if no improvement for `patience` consecutive generations.
      * When true, the Provisioner should be activated.
@@ -154,3 +291,39 @@ export class Mutator {
     }
 
 }
+
+/**
+ * Quote the turns that explain an outcome: the agent's own turns and the turn
+ * that ended the episode. The final turn is always kept; the agent's turns
+ * are added newest first until the token budget is spent.
+ */
+function excerptTranscript(transcript: ActionLogEntry[], agentId: string, tokenBudget: number): TranscriptExcerpt[] {
+    const last = transcript.at(-1);
+    if (!last) return [];
+
+    const toExcerpt = (log: ActionLogEntry): TranscriptExcerpt => ({
+        turn: log.turn,
+        speaker: log.speakerId,
+        said: clip(log.public_dialogue ?? ""),
+        ...(log.speakerId === agentId && log.internal_monologue ? { thought: clip(log.internal_monologue) } : {}),
+        changed: Array.isArray(log.state_mutations)
+            ? (log.state_mutations as Array<{ path: string }>).map((m) => m.path)
+            : [],
+    });
+
+    const selected: TranscriptExcerpt[] = [toExcerpt(last)];
+    let used = approximateTokenizer.count(JSON.stringify(selected[0]));
+    for (const log of transcript.slice(0, -1).reverse()) {
+        if (log.speakerId !== agentId) continue;
+        const excerpt = toExcerpt(log);
+        const cost = approximateTokenizer.count(JSON.stringify(excerpt));
+        if (used + cost > tokenBudget) break;
+        selected.push(excerpt);
+        used += cost;
+    }
+    return selected.sort((a, b) => a.turn - b.turn);
+}
+
+function clip(text: string): string {
+    return text.length > MAX_EXCERPT_CHARS ? `${text.slice(0, MAX_EXCERPT_CHARS)}…` : text;
+}
@@ -14,11 +14,11 @@ import type { GenericStateObject } from "../schemas/state.js";
 import { NewAgentProvisioning } from "../schemas/meta.js";
 import type { NewAgentProvisioning as NewAgentProvisioningType } from "../schemas/meta.js";
 import { UnsafeAgentDesignError } from "../errors/index.js";
-import type { EpochResult } from "./mutator.js";
+import type { EpisodeRecord } from "../core/episode.js";
 
 export class Provisioner {
     private systemPrompt: string;
-    private llmClient: LLMClient;
+    public llmClient: LLMClient;
 
     constructor(systemPrompt: string, llmClient: LLMClient) {
         this.systemPrompt = systemPrompt;
@@ -37,12 +37,13 @@ export class Provisioner {
      */
     async designAgent(
         currentState: GenericStateObject,
-        epochResults: EpochResult[],
+        episodes: EpisodeRecord[],
         failedArchetypes: string[],
         semanticMemoryContext?: object[],
+        signal?: AbortSignal,
     ): Promise<NewAgentProvisioningType> {
         // Phase 1: Architectural Analysis (LLM-driven analysis of the deadlock)
-        const deadlockSummary = await this.analyzeDeadlock(currentState, epochResults, semanticMemoryContext);
+        const deadlockSummary = await this.analyzeDeadlock(currentState, episodes, semanticMemoryContext, signal);
 
         // State Pruning: Do not dump the entire history, just the structure and environmental variables
         const prunedState = {
@@ -63,7 +64,7 @@ export class Provisioner {
             this.systemPrompt,
             prompt,
             // Higher creativity for novel agent design
-            { temperature: 0.9 },
+            { temperature: 0.9, role: "provisioner", abortSignal: signal },
         );
 
         const spec = result.object;
@@ -89,15 +90,16 @@ export class Provisioner {
      */
     private async analyzeDeadlock(
         currentState: GenericStateObject,
-        epochResults: EpochResult[],
-        semanticMemoryContext?: object[]
+        episodes: EpisodeRecord[],
+        semanticMemoryContext?: object[],
+        signal?: AbortSignal,
     ): Promise<string> {
-        const agentIds = Object.keys(epochResults[0][1]);
+        const agentIds = Object.keys(episodes[0].scores);
         const averages: Record<string, number> = {};
 
         for (const id of agentIds) {
-            const sum = epochResults.reduce((s, r) => s + (r[1][id] ?? 0), 0);
-            averages[id] = sum / epochResults.length;
+            const sum = episodes.reduce((s, episode) => s + (episode.scores[id] ?? 0), 0);
+            averages[id] = sum / episodes.length;
         }
 
         const analysisPrompt = JSON.stringify({
@@ -110,7 +112,7 @@ export class Provisioner {
         const analysisResult = await this.llmClient.generateText(
             this.systemPrompt,
             analysisPrompt,
-            { temperature: 0.5 }
+            { temperature: 0.5, role: "provisioner", abortSignal: signal }
         );
 
         return analysisResult.text;
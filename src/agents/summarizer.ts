@@ -0,0 +1,54 @@
+/**
+ * Summarizer — Recursive compression of deep episode history.
+ *
+ * Every `summarization_frequency` turns the EnvironmentManager prunes old
+ * action logs. Before they are dropped, the Summarizer folds them into the
+ * running Compressed Episode History, so long episodes keep their settled
+ * commitments and trajectory instead of silently losing them.
+ *
+ * @see docs/context_management_and_summarization.md §2 — Recursive Summarization Protocol
+ * @see docs/core_system_prompts.md §2 — The Summarizer Prompt
+ */
+import type { LLMClient, TextResult } from "../llm/client.js";
+import type { GenericStateObject } from "../schemas/state.js";
+import type { ActionLogEntry } from "./capitalizer.js";
+
+export class Summarizer {
+    private systemPrompt: string;
+    public llmClient: LLMClient;
+
+    constructor(systemPrompt: string, llmClient: LLMClient) {
+        this.systemPrompt = systemPrompt;
+        this.llmClient = llmClient;
+    }
+
+    /**
+     * Incrementally update the summary: the previous summary plus the turns
+     * about to be pruned are compressed into a new summary that replaces both.
+     * Internal monologues are excluded — the summary is shared by all actors.
+     * @see docs/context_management_and_summarization.md §4 — Privacy Guard
+     */
+    async summarize(
+        previousSummary: string,
+        prunedLogs: ActionLogEntry[],
+        currentState: GenericStateObject,
+        signal?: AbortSignal,
+    ): Promise<TextResult> {
+        const prompt = JSON.stringify({
+            previous_summary: previousSummary,
+            turns_to_fold_in: prunedLogs.map((log) => ({
+                turn: log.turn,
+                speaker: log.speakerId,
+                public_dialogue: log.public_dialogue ?? log.headline,
+                state_mutations: log.state_mutations,
+            })),
+            current_state: currentState.variables,
+        });
+
+        return this.llmClient.generateText(
+            this.systemPrompt,
+            prompt,
+            { temperature: 0.3, role: "summarizer", abortSignal: signal },
+        );
+    }
+}
@@ -0,0 +1,161 @@
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import path from "path";
+import {
+    forkEpisode,
+    diffVariables,
+    CostTracker,
+    FrameworkConfig,
+    SimulationEventBus,
+} from "../../index.js";
+import type { EpisodeRecord } from "../../index.js";
+import {
+    resolveScenario,
+    ensureScenarioApiKeys,
+    createLLMClient,
+    createActors,
+    createJudge,
+    scenarioModelAssignments,
+    openDatabase,
+} from "./simulate.js";
+
+interface ForkOptions {
+    turn: string;
+    scenario?: string;
+    set: string[];
+    strategy: string[];
+    provider?: string;
+    model?: string;
+    baseUrl?: string;
+    yes?: boolean;
+}
+
+/** Split `key=value` pairs from repeated options. */
+function parsePairs(pairs: string[], option: string): Array<[string, string]> {
+    return pairs.map((pair) => {
+        const separator = pair.indexOf("=");
+        if (separator <= 0) throw new Error(`Invalid ${option} value: ${pair} (expected key=value)`);
+        return [pair.slice(0, separator), pair.slice(separator + 1)];
+    });
+}
+
+/** Read an override as JSON, or as a plain string if it is not JSON. */
+function parseValue(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+function printComparison(parent: EpisodeRecord, fork: EpisodeRecord): void {
+    const agentIds = [...new Set([...Object.keys(parent.scores), ...Object.keys(fork.scores)])];
+    const rows = [
+        `${"".padEnd(20)} ${"parent".padEnd(20)} fork`,
+        `${"Termination".padEnd(20)} ${parent.terminationReason.padEnd(20)} ${fork.terminationReason}`,
+        `${"Turns".padEnd(20)} ${String(parent.turnCount).padEnd(20)} ${fork.turnCount}`,
+        ...agentIds.map((agentId) =>
+            `${`Score ${agentId}`.padEnd(20)} ${String(parent.scores[agentId] ?? "-").padEnd(20)} ${fork.scores[agentId] ?? "-"}`,
+        ),
+    ];
+    const changes = diffVariables(parent.finalState.variables, fork.finalState.variables);
+    if (changes.length > 0) {
+        rows.push("", "Final state differences:");
+        for (const change of changes) {
+            rows.push(`  ${change.path}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`);
+        }
+    }
+    p.note(rows.join("\n"), "Parent vs fork");
+}
+
+export async function forkCommand(episodeId: string, options: ForkOptions) {
+    p.intro(chalk.bgCyan.black(" SISC - Fork Episode "));
+
+    let costTracker: CostTracker | undefined;
+    const database = await openDatabase();
+
+    try {
+        const turn = Number(options.turn);
+        if (!Number.isInteger(turn)) throw new Error(`Invalid --turn value: ${options.turn}`);
+        const variables = Object.fromEntries(
+            parsePairs(options.set, "--set").map(([variablePath, value]) => [variablePath, parseValue(value)]),
+        );
+        const strategies = Object.fromEntries(parsePairs(options.strategy, "--strategy"));
+
+        const parent = database.getEpisode(episodeId);
+        if (!parent) throw new Error(`Unknown episode: ${episodeId}`);
+
+        const scenario = await resolveScenario(options, path.join(process.cwd(), "scenarios"));
+        if (!scenario) {
+            p.outro("Fork cancelled.");
+            return;
+        }
+        ensureScenarioApiKeys(scenario, options.provider ?? scenario.runtime.provider);
+
+        const config = FrameworkConfig.parse(scenario.config);
+        costTracker = new CostTracker({ prices: config.model_prices, maxCostUsd: config.max_run_cost_usd });
+        const llmClient = createLLMClient(scenario, options, { costTracker });
+        const agents = createActors(scenario, llmClient);
+
+        p.log.info(`Forking ${chalk.cyan(episodeId)} at turn ${turn} of ${parent.turnCount} (${parent.terminationReason}).`);
+        for (const [variablePath, value] of Object.entries(variables)) {
+            p.log.info(`Setting ${chalk.cyan(variablePath)} to ${JSON.stringify(value)}`);
+        }
+        for (const agentId of Object.keys(strategies)) {
+            p.log.info(`Swapping in a new strategy for ${chalk.cyan(agentId)}`);
+        }
+
+        if (!options.yes) {
+            const start = await p.confirm({ message: "Play the rest of the episode live?" });
+            if (p.isCancel(start) || !start) {
+                p.outro("Fork aborted.");
+                return;
+            }
+        }
+
+        const cancellation = new AbortController();
+        const onSigint = () => {
+            if (cancellation.signal.aborted) process.exit(130);
+            cancellation.abort();
+        };
+        process.on("SIGINT", onSigint);
+
+        const events = new SimulationEventBus();
+        events.on("turn:complete", ({ speakerId, proposal, logEntry }) => {
+            p.log.message(`${chalk.dim(`[${logEntry.turn}]`)} ${chalk.bold(speakerId)}: ${proposal.public_dialogue}`);
+        });
+        events.on("turn:penalty", ({ speakerId }) => {
+            p.log.warn(`${speakerId} forfeited its turn after invalid proposals.`);
+        });
+
+        const fork = await forkEpisode({
+            database,
+            episodeId,
+            turn,
+            config,
+            agents,
+            judge: createJudge(scenario, llmClient),
+            llmClient,
+            // Played on the parent's models. Like simulate, no Capitalizer, Summarizer or disruptors
+            modelAssignments: scenarioModelAssignments(scenario),
+            variables,
+            strategies,
+            events,
+            signal: cancellation.signal,
+        }).finally(() => process.off("SIGINT", onSigint));
+
+        if (fork.terminationReason === "cancelled") {
+            p.outro(chalk.yellow("Fork cancelled; nothing was stored."));
+            return;
+        }
+        printComparison(parent, fork);
+        p.outro(`Stored fork ${chalk.cyan(fork.id)}, linked to ${chalk.cyan(episodeId)}.`);
+    } catch (err) {
+        p.log.error(chalk.red("Fork error:"));
+        p.log.error(err instanceof Error ? err.message : String(err));
+        process.exitCode = 1;
+    } finally {
+        if (costTracker) p.log.info(`Cost: $${costTracker.totalCostUsd.toFixed(4)}`);
+        database.close();
+    }
+}
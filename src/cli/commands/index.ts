@@ -1,3 +1,4 @@
 export { initCommand } from "./init.js";
 export { runCommand } from "./run.js";
 export { simulateCommand } from "./simulate.js";
+export { forkCommand } from "./fork.js";
@@ -4,8 +4,11 @@ import ora from "ora";
 import fs from "fs/promises";
 import path from "path";
 import { spawn } from "child_process";
+import { KEYLESS_PROVIDERS } from "../../index.js";
 
 function ensureApiKeyPresent(): void {
+    const provider = process.env.SISC_PROVIDER;
+    if (provider && KEYLESS_PROVIDERS.includes(provider.toLowerCase())) return;
     if (!process.env.OPENAI_API_KEY && !process.env.GOOGLE_GENERATIVE_AI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
         throw new Error("No LLM API key detected. Set OPENAI_API_KEY, GOOGLE_GENERATIVE_AI_API_KEY, or ANTHROPIC_API_KEY.");
     }
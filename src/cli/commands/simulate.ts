@@ -3,6 +3,7 @@ import chalk from "chalk";
 import fs from "fs/promises";
 import path from "path";
 import { z } from "zod/v4";
+import { v4 as uuidv4 } from "uuid";
 import {
     LLMClient,
     runFullSimulation,
@@ -11,9 +12,18 @@ import {
     Mutator,
     Provisioner,
     resolveLanguageModel,
+    KEYLESS_PROVIDERS,
+    Cassette,
+    CostTracker,
+    FileCheckpointStore,
+    SqliteDatabase,
     FrameworkConfig,
     GenericStateObject,
+    ModelAssignment,
+    MetaAgentRole,
+    SimulationEventBus,
 } from "../../index.js";
+import type { SimulationResult, EpisodeRecord, ModelAssignments } from "../../index.js";
 
 const ScenarioActorSchema = z.object({
     id: z.string().min(1),
@@ -21,6 +31,8 @@ const ScenarioActorSchema = z.object({
     role: z.string().min(1),
     personality: z.string().min(1),
     immutableCore: z.string().min(1),
+    /** The model this actor runs on. Default: the run's model. */
+    model: ModelAssignment.optional(),
 });
 
 const ScenarioSchema = z.object({
@@ -64,25 +76,120 @@ const ScenarioSchema = z.object({
     runtime: z.object({
         provider: z.string(),
         model: z.string(),
+        /** Endpoint for ollama, openai-compatible, or a proxied hosted provider. */
+        base_url: z.string().url(),
+        /** Extra HTTP headers sent with every request. */
+        headers: z.record(z.string(), z.string()),
+        /** Models for meta-agent roles, e.g. a strong judge over cheap actors. */
+        roles: z.partialRecord(MetaAgentRole, ModelAssignment),
+        /** Models tried in order when the primary model keeps failing. */
+        fallbacks: z.array(z.object({
+            provider: z.string(),
+            model: z.string(),
+            base_url: z.string().url().optional(),
+            headers: z.record(z.string(), z.string()).optional(),
+        })),
+        max_retries: z.number().int().min(0),
+        timeout_ms: z.number().int().positive(),
     }).partial().default({}),
 });
 
-type Scenario = z.infer<typeof ScenarioSchema>;
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+/** Where runs record their episodes, relative to the project directory. */
+const DATABASE_PATH = path.join(".sisc", "sisc.db");
 
 interface SimulateOptions {
     scenario?: string;
     provider?: string;
     model?: string;
+    baseUrl?: string;
     maxGenerations?: string;
+    resume?: string;
+    record?: string;
+    replay?: string;
+    seed?: string;
     yes?: boolean;
 }
 
-function ensureApiKeyPresent(): void {
+function ensureApiKeyPresent(provider?: string): void {
+    if (provider && KEYLESS_PROVIDERS.includes(provider.toLowerCase())) return;
     if (!process.env.OPENAI_API_KEY && !process.env.GOOGLE_GENERATIVE_AI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
         throw new Error("No LLM API key detected. Please set OPENAI_API_KEY, GOOGLE_GENERATIVE_AI_API_KEY, or ANTHROPIC_API_KEY.");
     }
 }
 
+/** Check there is a key for the run's provider and every fallback, actor and role model. */
+export function ensureScenarioApiKeys(scenario: Scenario, provider?: string): void {
+    ensureApiKeyPresent(provider ?? process.env.SISC_PROVIDER);
+    const extraModels = [
+        ...(scenario.runtime.fallbacks ?? []),
+        ...scenario.actors.flatMap((a) => (a.model ? [a.model] : [])),
+        ...Object.values(scenario.runtime.roles ?? {}),
+    ];
+    for (const { provider } of extraModels) {
+        if (provider) ensureApiKeyPresent(provider);
+    }
+}
+
+/** The LLM client for a scenario's runtime, with the command line's provider, model and endpoint overrides. */
+export function createLLMClient(
+    scenario: Scenario,
+    overrides: { provider?: string; model?: string; baseUrl?: string },
+    options: { costTracker: CostTracker; cassette?: Cassette },
+): LLMClient {
+    const model = resolveLanguageModel(overrides.provider ?? scenario.runtime.provider, overrides.model ?? scenario.runtime.model, {
+        baseURL: overrides.baseUrl ?? scenario.runtime.base_url,
+        headers: scenario.runtime.headers,
+    });
+    return new LLMClient(model, {
+        cassette: options.cassette,
+        costTracker: options.costTracker,
+        fallbackModels: scenario.runtime.fallbacks?.map((f) =>
+            resolveLanguageModel(f.provider, f.model, { baseURL: f.base_url, headers: f.headers }),
+        ),
+        retry: { maxRetries: scenario.runtime.max_retries },
+        timeoutMs: scenario.runtime.timeout_ms,
+    });
+}
+
+/** One ActorAgent per scenario actor, keyed by actor ID. */
+export function createActors(scenario: Scenario, llmClient: LLMClient): Record<string, ActorAgent> {
+    const actors: Record<string, ActorAgent> = {};
+    for (const actor of scenario.actors) {
+        actors[actor.id] = new ActorAgent({
+            archetypeId: actor.id,
+            immutableCore: actor.immutableCore,
+            mutableStrategy: "",
+            llmClient,
+        });
+    }
+    return actors;
+}
+
+/** The scenario's per-actor and per-role models, as runFullSimulation() and forkEpisode() take them. */
+export function scenarioModelAssignments(scenario: Scenario): ModelAssignments {
+    return {
+        actors: Object.fromEntries(scenario.actors.flatMap((a) => (a.model ? [[a.id, a.model]] : []))),
+        roles: scenario.runtime.roles,
+    };
+}
+
+export function createJudge(scenario: Scenario, llmClient: LLMClient): Critic {
+    return new Critic(
+        scenario.prompts.judge_rubric ?? "Evaluate based on strategic depth, adherence to goals, and avoidance of unnecessary destructive escalation unless aligned with core interests.",
+        scenario.prompts.judge_system_prompt ?? "You are an impartial, mathematically rigorous evaluator. You have no allegiance to any agent. You evaluate OUTCOMES, not intentions.",
+        llmClient,
+    );
+}
+
+/** Open the project's episode database, creating it on first use. */
+export async function openDatabase(): Promise<SqliteDatabase> {
+    const dbPath = path.join(process.cwd(), DATABASE_PATH);
+    await fs.mkdir(path.dirname(dbPath), { recursive: true });
+    return new SqliteDatabase(dbPath);
+}
+
 function buildInitialState(scenario: Scenario): z.infer<typeof GenericStateObject> {
     return GenericStateObject.parse({
         turn_number: scenario.initialState.turn_number ?? 0,
@@ -94,6 +201,54 @@ function buildInitialState(scenario: Scenario): z.infer<typeof GenericStateObjec
     });
 }
 
+const ENDINGS: Record<SimulationResult["terminationReason"], string> = {
+    max_generations: "",
+    equilibrium: " (equilibrium reached)",
+    cancelled: " (cancelled)",
+};
+
+function printRunSummary(result: SimulationResult): void {
+    const reasons = Object.entries(result.terminationReasons)
+        .map(([reason, count]) => `${reason} ${count}`)
+        .join(", ");
+    const mutations = Object.entries(result.strategyHistory)
+        .map(([agentId, history]) => `${agentId} ${history.length - 1}`)
+        .join(", ");
+    const created = result.createdAgents
+        .map((agent) => `${agent.agentId} (${agent.status}, Δ ${agent.scoreDelta.toFixed(2)})`)
+        .join(", ");
+    p.note([
+        `Generations:   ${result.generations.length}${ENDINGS[result.terminationReason]}`,
+        `Terminations:  ${reasons || "none"}`,
+        `Mutations:     ${mutations}`,
+        `Created:       ${created || "none"}`,
+        `Active agents: ${Object.keys(result.activeAgents).join(", ")}`,
+        `Seed:          ${result.seed ?? "none"}`,
+    ].join("\n"), "Run Summary");
+}
+
+function printEpisodes(episodes: EpisodeRecord[]): void {
+    if (episodes.length === 0) return;
+    const rows = episodes.map((episode) =>
+        `${episode.id}  ${episode.terminationReason.padEnd(20)} ${String(episode.turnCount).padStart(3)} turns`,
+    );
+    rows.push("", `Recorded in ${DATABASE_PATH}. Branch one with ${chalk.cyan("sisc fork <episode-id> --turn <n>")}.`);
+    p.note(rows.join("\n"), `Episodes of generation ${episodes[0].generation}`);
+}
+
+function printCostBreakdown(costTracker: CostTracker): void {
+    const rows = Object.entries(costTracker.breakdown()).map(([role, cost]) =>
+        `${role.padEnd(18)} ${String(cost.calls).padStart(5)} calls ` +
+        `${`${cost.inputTokens}/${cost.outputTokens}`.padStart(15)} tok  $${cost.costUsd.toFixed(4)}`,
+    );
+    if (rows.length === 0) return;
+    rows.push(`${"TOTAL".padEnd(18)} ${" ".repeat(33)} $${costTracker.totalCostUsd.toFixed(4)}`);
+    p.note(rows.join("\n"), "Cost breakdown by agent role");
+    if (costTracker.unpricedModels.size > 0) {
+        p.log.warn(`No price configured for ${[...costTracker.unpricedModels].join(", ")}; counted as $0. Add them to config.model_prices.`);
+    }
+}
+
 async function loadScenarioFromFile(filePath: string): Promise<Scenario> {
     const content = await fs.readFile(filePath, "utf-8");
     return ScenarioSchema.parse(JSON.parse(content));
@@ -201,7 +356,7 @@ async function createInteractiveScenario(): Promise<Scenario | null> {
     return scenario;
 }
 
-async function resolveScenario(options: SimulateOptions, scenariosDir: string): Promise<Scenario | null> {
+export async function resolveScenario(options: { scenario?: string }, scenariosDir: string): Promise<Scenario | null> {
     if (options.scenario) {
         const scenarioPath = path.resolve(process.cwd(), options.scenario);
         return loadScenarioFromFile(scenarioPath);
@@ -221,6 +376,8 @@ export async function simulateCommand(options: SimulateOptions) {
     p.intro(chalk.bgCyan.black(" SISC - No-Code Simulation "));
 
     const scenariosDir = path.join(process.cwd(), "scenarios");
+    let costTracker: CostTracker | undefined;
+    let database: SqliteDatabase | undefined;
 
     try {
         const scenario = await resolveScenario(options, scenariosDir);
@@ -229,18 +386,41 @@ export async function simulateCommand(options: SimulateOptions) {
             return;
         }
 
-        ensureApiKeyPresent();
+        const selectedProvider = options.provider ?? scenario.runtime.provider;
+        const selectedModel = options.model ?? scenario.runtime.model;
+        if (options.record && options.replay) {
+            throw new Error("--record and --replay cannot be used together.");
+        }
+        // A replayed run never reaches the provider
+        if (!options.replay) ensureScenarioApiKeys(scenario, selectedProvider);
 
         p.log.info(chalk.bold(`Scenario: ${scenario.name}`));
         p.log.info(chalk.dim(scenario.description));
         p.log.step("Initializing framework components...");
 
-        const selectedProvider = options.provider ?? scenario.runtime.provider;
-        const selectedModel = options.model ?? scenario.runtime.model;
-        const model = resolveLanguageModel(selectedProvider, selectedModel);
-        const llmClient = new LLMClient(model);
+        let cassette: Cassette | undefined;
+        if (options.replay) {
+            cassette = new Cassette(path.resolve(process.cwd(), options.replay), "replay");
+            p.log.info(`Replaying LLM responses from ${chalk.cyan(options.replay)}`);
+        } else if (options.record) {
+            cassette = new Cassette(path.resolve(process.cwd(), options.record), "record");
+            p.log.info(`Recording LLM responses to ${chalk.cyan(options.record)}`);
+        }
+        const seedOverride = options.seed !== undefined ? Number(options.seed) : undefined;
+        if (seedOverride !== undefined && !Number.isInteger(seedOverride)) {
+            throw new Error(`Invalid --seed value: ${options.seed}`);
+        }
+        const frameworkConfig = FrameworkConfig.parse({ ...scenario.config, seed: seedOverride ?? scenario.config.seed });
+        costTracker = new CostTracker({
+            prices: frameworkConfig.model_prices,
+            maxCostUsd: frameworkConfig.max_run_cost_usd,
+        });
+        const llmClient = createLLMClient(
+            scenario,
+            { provider: selectedProvider, model: selectedModel, baseUrl: options.baseUrl },
+            { costTracker, cassette },
+        );
 
-        const frameworkConfig = FrameworkConfig.parse(scenario.config);
         const maxGenerationsOverride = options.maxGenerations
             ? Number(options.maxGenerations)
             : undefined;
@@ -249,21 +429,8 @@ export async function simulateCommand(options: SimulateOptions) {
         }
         const maxGenerations = maxGenerationsOverride ?? frameworkConfig.max_generations;
 
-        const activeAgents: Record<string, ActorAgent> = {};
-        for (const actor of scenario.actors) {
-            activeAgents[actor.id] = new ActorAgent({
-                archetypeId: actor.id,
-                immutableCore: actor.immutableCore,
-                mutableStrategy: "",
-                llmClient,
-            });
-        }
-
-        const judge = new Critic(
-            scenario.prompts.judge_rubric ?? "Evaluate based on strategic depth, adherence to goals, and avoidance of unnecessary destructive escalation unless aligned with core interests.",
-            scenario.prompts.judge_system_prompt ?? "You are an impartial, mathematically rigorous evaluator. You have no allegiance to any agent. You evaluate OUTCOMES, not intentions.",
-            llmClient,
-        );
+        const activeAgents = createActors(scenario, llmClient);
+        const judge = createJudge(scenario, llmClient);
         const mutator = new Mutator(
             scenario.prompts.mutator_system_prompt ?? "You are an expert AI Strategist and Prompt Engineer. Your objective is to review a failed simulation episode and generate exactly THREE new, distinct strategic tactics.",
             llmClient,
@@ -285,10 +452,53 @@ export async function simulateCommand(options: SimulateOptions) {
             }
         }
 
+        const checkpointStore = new FileCheckpointStore(path.join(process.cwd(), ".sisc", "checkpoints"));
+        database = await openDatabase();
+        const runId = options.resume ?? uuidv4();
+        if (options.resume) {
+            p.log.info(`Resuming run ${chalk.cyan(runId)} from its last checkpoint.`);
+        } else {
+            p.log.info(`Run ID: ${chalk.cyan(runId)} (resume with ${chalk.cyan(`--resume ${runId}`)})`);
+        }
+
         const simSpinner = p.spinner();
         simSpinner.start("Simulation in progress...");
 
-        await runFullSimulation({
+        // First Ctrl-C cancels cleanly and keeps the last checkpoint; a second one quits at once
+        const cancellation = new AbortController();
+        const onSigint = () => {
+            if (cancellation.signal.aborted) process.exit(130);
+            simSpinner.message("Cancelling: finishing in-flight writes (Ctrl-C again to quit now)...");
+            cancellation.abort();
+        };
+        process.on("SIGINT", onSigint);
+
+        const events = new SimulationEventBus();
+        const colors = [chalk.blue, chalk.green, chalk.yellow, chalk.cyan, chalk.magenta];
+        events.on("turn:complete", ({ kind, speakerId, proposal }) => {
+            if (kind !== "epoch") return;
+            const index = Object.keys(activeAgents).indexOf(speakerId);
+            const color = index !== -1 ? colors[index % colors.length] : chalk.white;
+            p.log.message(`${color.bold(speakerId)}: ${chalk.white(proposal.public_dialogue)}`);
+        });
+        events.on("mutation:accepted", ({ generation, agentId, lcb, pValue }) => {
+            p.log.success(`Gen ${generation}: Accepted a new strategy for ${chalk.cyan(agentId)} (LCB ${lcb.toFixed(2)}, p=${pValue.toFixed(3)})`);
+        });
+        events.on("mutation:rejected", ({ generation, agentId, lcb, pValue }) => {
+            p.log.info(`Gen ${generation}: Kept ${chalk.cyan(agentId)}'s strategy (LCB ${lcb.toFixed(2)}, p=${pValue.toFixed(3)})`);
+        });
+        events.on("provisioner:approved", ({ spec }) => {
+            p.log.warn(`${chalk.magenta.bold("PROVISIONER")}: Birthed new agent ${chalk.cyan(spec.agent_id)} (${spec.archetype})`);
+        });
+        let lastEpisodes: EpisodeRecord[] = [];
+        events.on("generation:complete", ({ generation, episodes }) => {
+            lastEpisodes = episodes;
+            const allScores = episodes.flatMap((episode) => Object.values(episode.scores));
+            const avgTotal = allScores.reduce((sum, val) => sum + val, 0) / allScores.length;
+            simSpinner.message(`Gen ${generation}: Global Performance Mean: ${avgTotal.toFixed(2)}`);
+        });
+
+        const result = await runFullSimulation({
             config: frameworkConfig,
             initialState: buildInitialState(scenario),
             agents: activeAgents,
@@ -296,29 +506,39 @@ export async function simulateCommand(options: SimulateOptions) {
             mutator,
             provisioner,
             llmClient,
+            modelAssignments: scenarioModelAssignments(scenario),
             maxGenerations,
-            onGenerationComplete: (gen, results) => {
-                const allScores = results.flatMap(r => Object.values(r[1]));
-                const avgTotal = allScores.reduce((sum, val) => sum + val, 0) / allScores.length;
-                simSpinner.message(`Gen ${gen}: Global Performance Mean: ${avgTotal.toFixed(2)}`);
-            },
+            database,
+            checkpointStore,
+            runId,
+            resumeFrom: options.resume,
+            events,
+            signal: cancellation.signal,
             onPhaseChange: (phase) => p.log.info(chalk.blue(phase)),
-            onTurnComplete: (speakerId, dialogue) => {
-                const colors = [chalk.blue, chalk.green, chalk.yellow, chalk.cyan, chalk.magenta];
-                const index = Object.keys(activeAgents).indexOf(speakerId);
-                const color = index !== -1 ? colors[index % colors.length] : chalk.white;
-                p.log.message(`${color.bold(speakerId)}: ${chalk.white(dialogue)}`);
-            },
-            onAgentCreated: (agentId, archetype) => {
-                p.log.warn(`${chalk.magenta.bold("PROVISIONER")}: Birthed new agent ${chalk.cyan(agentId)} (${archetype})`);
-            },
-        });
+        }).finally(() => process.off("SIGINT", onSigint));
 
-        simSpinner.stop(chalk.green("Simulation completed."));
+        if (result.terminationReason === "cancelled") {
+            simSpinner.stop(chalk.yellow("Simulation cancelled."));
+        } else {
+            simSpinner.stop(chalk.green("Simulation completed."));
+        }
+        printRunSummary(result);
+        printCostBreakdown(costTracker);
+        printEpisodes(lastEpisodes);
+        if (result.terminationReason === "cancelled") {
+            const checkpoint = await checkpointStore.load(result.runId);
+            p.outro(checkpoint
+                ? `Cancelled after generation ${checkpoint.generation}. Resume with ${chalk.cyan(`--resume ${result.runId}`)}.`
+                : "Cancelled before the first generation completed.");
+            return;
+        }
         p.outro("Self-improvement cycle finished.");
     } catch (err) {
+        if (costTracker) printCostBreakdown(costTracker);
         p.log.error(chalk.red("Simulation error:"));
         p.log.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        process.exitCode = 1;
+    } finally {
+        database?.close();
     }
 }
@@ -10,7 +10,7 @@ dotenv.config();
 import { Command } from "commander";
 import * as p from "@clack/prompts";
 import chalk from "chalk";
-import { initCommand, runCommand, simulateCommand } from "./commands/index.js";
+import { initCommand, runCommand, simulateCommand, forkCommand } from "./commands/index.js";
 
 const program = new Command();
 
@@ -34,10 +34,31 @@ program
     .command("simulate")
     .description("Run a no-code simulation from a scenario file")
     .option("-s, --scenario <path>", "Path to the scenario JSON file")
-    .option("--provider <provider>", "LLM provider override (openai|google|anthropic)")
+    .option("--provider <provider>", "LLM provider override (openai|google|anthropic|ollama|openai-compatible|mock)")
     .option("--model <model>", "LLM model override")
+    .option("--base-url <url>", "Provider endpoint override, e.g. a local OpenAI-compatible server")
     .option("--max-generations <number>", "Override max generations for this run")
+    .option("--resume <run-id>", "Resume a previous run from its last checkpoint")
+    .option("--record <path>", "Record every LLM response to a cassette file")
+    .option("--replay <path>", "Replay LLM responses from a cassette file instead of calling the provider")
+    .option("--seed <number>", "Seed for reproducible runs, overriding the scenario config")
     .option("-y, --yes", "Skip confirmation prompt before starting the simulation")
     .action(simulateCommand);
 
+/** Collect a repeatable option into a list. */
+const collect = (value: string, previous: string[]) => [...previous, value];
+
+program
+    .command("fork <episode-id>")
+    .description("Branch a recorded episode at a turn and play the rest live")
+    .requiredOption("--turn <number>", "Turn to branch at; earlier turns are replayed from the record")
+    .option("-s, --scenario <path>", "Scenario the episode was played from")
+    .option("--set <path=value>", "Set a state variable at the fork point (JSON value), repeatable", collect, [])
+    .option("--strategy <agent-id=text>", "Swap in a strategy for an agent, repeatable", collect, [])
+    .option("--provider <provider>", "LLM provider override (openai|google|anthropic|ollama|openai-compatible|mock)")
+    .option("--model <model>", "LLM model override")
+    .option("--base-url <url>", "Provider endpoint override, e.g. a local OpenAI-compatible server")
+    .option("-y, --yes", "Skip confirmation prompt before playing the fork")
+    .action(forkCommand);
+
 program.parse(process.argv);
@@ -61,7 +61,7 @@ const agents = {
 async function main() {
     console.log("Starting SISC simulation...");
 
-    await runFullSimulation({
+    const result = await runFullSimulation({
         config: frameworkConfig,
         initialState,
         agents,
@@ -74,6 +74,9 @@ async function main() {
             console.log(\`Generation \${generation} complete. Episodes: \${results.length}\`);
         },
     });
+
+    console.log(\`Finished after \${result.generations.length} generations. Cost: $\${result.totalCostUsd.toFixed(4)}\`);
+    console.log("Termination reasons:", result.terminationReasons);
 }
 
 main().catch((err) => {
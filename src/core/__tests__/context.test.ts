@@ -0,0 +1,65 @@
+/**
+ * Context Tests — Validate tiered context construction and token budgeting.
+ */
+import { describe, it, expect } from "vitest";
+import { buildBudgetedContext, collapseColdFields } from "../../core/context.js";
+import { approximateTokenizer } from "../../core/tokenizer.js";
+import type { Tokenizer } from "../../core/tokenizer.js";
+
+/** One token per character keeps the arithmetic in these tests readable. */
+const charTokenizer: Tokenizer = { count: (text) => text.length };
+
+describe("buildBudgetedContext", () => {
+    const tiers = {
+        core: "x".repeat(10),
+        state: { a: 1 },                                  // {"a":1} = 7 tokens
+        recentTurns: ["t1".repeat(5), "t2".repeat(5), "t3".repeat(5)], // 10 tokens each
+        condensedRecent: ["b".repeat(10), "c".repeat(10)], // 10 tokens each
+        deepHistorySummary: "s".repeat(20),
+    };
+
+    it("keeps everything within an unlimited budget", () => {
+        const context = buildBudgetedContext(tiers, Infinity, charTokenizer);
+        expect(context.recentTurns).toHaveLength(3);
+        expect(context.condensedRecent).toHaveLength(2);
+        expect(context.deepHistorySummary).toBe(tiers.deepHistorySummary);
+        expect(context.usage).toEqual({ core: 10, state: 7, recent_turns: 30, summaries: 40 });
+    });
+
+    it("fills tiers in priority order, newest entries first", () => {
+        // 17 for core + state, leaving 25: two recent turns (20), then nothing else fits
+        const context = buildBudgetedContext(tiers, 42, charTokenizer);
+        expect(context.recentTurns).toEqual([tiers.recentTurns[1], tiers.recentTurns[2]]);
+        expect(context.condensedRecent).toEqual([]);
+        expect(context.deepHistorySummary).toBe("");
+        expect(context.usage).toEqual({ core: 10, state: 7, recent_turns: 20, summaries: 0 });
+    });
+
+    it("always keeps core and state even over budget", () => {
+        const context = buildBudgetedContext(tiers, 5, charTokenizer);
+        expect(context.recentTurns).toEqual([]);
+        expect(context.usage.core + context.usage.state).toBe(17);
+    });
+});
+
+describe("approximateTokenizer", () => {
+    it("counts roughly four characters per token, at least one per word", () => {
+        expect(approximateTokenizer.count("")).toBe(0);
+        expect(approximateTokenizer.count("abcdefgh")).toBe(2);
+        expect(approximateTokenizer.count("a b c d")).toBe(4);
+    });
+});
+
+describe("collapseColdFields", () => {
+    it("archives cold paths unless they contain active fields", () => {
+        const variables = { deal: { price: 1, terms: "x" }, offer: 2, old: 3 };
+        const { visible, archived } = collapseColdFields(variables, {
+            hot: ["offer"],
+            warm: ["deal.price"],
+            cold: ["deal", "old"],
+        });
+        expect(archived).toEqual(["old"]);
+        expect(visible).toEqual({ deal: { price: 1, terms: "x" }, offer: 2 });
+        expect(variables).toHaveProperty("old");
+    });
+});
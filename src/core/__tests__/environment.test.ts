@@ -8,11 +8,13 @@
 import { describe, it, expect, vi } from "vitest";
 import { EnvironmentManager } from "../../core/environment.js";
 import { ActorAgent } from "../../agents/actor.js";
+import { Summarizer } from "../../agents/summarizer.js";
+import type { InformationDisruptor } from "../../agents/disruptor.js";
 import { FrameworkConfig } from "../../schemas/config.js";
 import { GenericStateObject } from "../../schemas/state.js";
 import {
     EpisodeCorruptedError,
-    PermissionViolationError,
+    InvalidStateError,
     MaxAgentsExceededError,
 } from "../../errors/index.js";
 import type { LLMClient } from "../../llm/client.js";
@@ -155,6 +157,339 @@ describe("EnvironmentManager.runEpisode()", () => {
         expect(finalState.turn_number).toBe(4);
         expect(logs.length).toBe(4);
     });
+
+    it("folds pruned turns into a recursive summary", async () => {
+        const config = makeConfig({ max_turns_per_episode: 9, summarization_frequency: 2 });
+        const env = new EnvironmentManager(makeState(), config);
+        env.turnOrder = ["agent_a", "agent_b"];
+
+        const generateText = vi.fn()
+            .mockResolvedValueOnce({ text: "Summary 1", tokenUsage: 10 })
+            .mockResolvedValueOnce({ text: "Summary 2", tokenUsage: 10 });
+        env.setSummarizer(new Summarizer("Summarize.", { generateText } as unknown as LLMClient));
+
+        const events: Array<{ prunedCount: number; summary: string }> = [];
+        env.on("context:summarized", (event) => events.push(event));
+
+        const agent = mockAgent("agent_a", {
+            internal_monologue: "Secret plan",
+            public_dialogue: "Turn action",
+            state_mutations: [],
+            propose_resolution: false,
+            abort_episode: false,
+        });
+        await env.runEpisode({ agent_a: agent, agent_b: agent });
+
+        // Pruned at turns 6 and 8 (logs exceed 2N = 4)
+        expect(events).toEqual([
+            { prunedCount: 2, summary: "Summary 1" },
+            { prunedCount: 2, summary: "Summary 2" },
+        ]);
+        const secondPrompt = JSON.parse(generateText.mock.calls[1][1]);
+        expect(secondPrompt.previous_summary).toBe("Summary 1");
+        expect(secondPrompt.turns_to_fold_in.map((t: { turn: number }) => t.turn)).toEqual([2, 3]);
+        expect(generateText.mock.calls[0][1]).not.toContain("Secret plan");
+
+        // Agents see the summary in their payload once it exists
+        const payloads = (agent.proposeAction as ReturnType<typeof vi.fn>).mock.calls.map((c) => c[0]);
+        expect(payloads[6].episode_summary).toBe("Summary 1");
+        expect(payloads[5]).not.toHaveProperty("episode_summary");
+    });
+
+    it("keeps pruned turns and disruptor reports in the transcript", async () => {
+        const config = makeConfig({ max_turns_per_episode: 8, summarization_frequency: 2, info_disruptor_frequency: 3 });
+        const env = new EnvironmentManager(makeState(), config);
+        env.turnOrder = ["agent_a", "agent_b"];
+        const observe = vi.fn().mockResolvedValue({ headline: "Talks leak", severity: "high", inject_into_transcript: true });
+        env.setInfoDisruptor({ observe } as unknown as InformationDisruptor);
+
+        const agent = mockAgent("agent_a", {
+            internal_monologue: "...",
+            public_dialogue: "Turn action",
+            state_mutations: [],
+            propose_resolution: false,
+            abort_episode: false,
+        });
+        await env.runEpisode({ agent_a: agent, agent_b: agent });
+
+        expect(env.transcript.map((log) => [log.turn, log.speakerId])).toEqual([
+            [0, "agent_a"], [0, "disruptor_info"], [1, "agent_b"], [2, "agent_a"],
+            [3, "agent_b"], [3, "disruptor_info"], [4, "agent_a"], [5, "agent_b"],
+            [6, "agent_a"], [6, "disruptor_info"], [7, "agent_b"],
+        ]);
+        expect(env.transcript.slice(-env.actionLogs.length)).toEqual(env.actionLogs);
+        expect(env.transcript[1]).toMatchObject({ headline: "Talks leak" });
+    });
+
+    it("ends as cancelled with the turns played so far when its signal fires", async () => {
+        const env = new EnvironmentManager(makeState(), makeConfig());
+        env.turnOrder = ["agent_a", "agent_b"];
+        const controller = new AbortController();
+
+        const agent = mockAgent("agent_a", {
+            internal_monologue: "Turn",
+            public_dialogue: "Turn action",
+            state_mutations: [],
+            propose_resolution: false,
+            abort_episode: false,
+        });
+        env.on("turn:complete", ({ logEntry }) => {
+            if (logEntry.turn === 2) controller.abort();
+        });
+
+        const [finalState, logs] = await env.runEpisode({ agent_a: agent, agent_b: agent }, controller.signal);
+        expect(env.terminationReason).toBe("cancelled");
+        expect(finalState.turn_number).toBe(3);
+        expect(logs).toHaveLength(3);
+        expect(agent.proposeAction).toHaveBeenCalledWith(expect.anything(), controller.signal);
+    });
+});
+
+describe("EnvironmentManager state history", () => {
+    function proposal(state_mutations: object[]) {
+        return {
+            internal_monologue: "...",
+            public_dialogue: "...",
+            state_mutations,
+            propose_resolution: false,
+            abort_episode: false,
+        };
+    }
+
+    async function playNuclearTalks() {
+        const env = new EnvironmentManager(
+            GenericStateObject.parse({
+                current_speaker_id: "usa",
+                variables: { enrichment_level_percent: 90, clauses: ["freeze"] },
+            }),
+            makeConfig({ max_turns_per_episode: 3 }),
+        );
+        env.turnOrder = ["usa", "iran"];
+        const iran = mockAgent("iran", {});
+        iran.proposeAction = vi.fn()
+            .mockResolvedValueOnce({
+                proposal: proposal([{ action: "decrement", path: "enrichment_level_percent", value: 35 }]),
+                tokenUsage: 10,
+            });
+        await env.runEpisode({
+            usa: mockAgent("usa", proposal([{ action: "append", path: "clauses", value: "inspect" }])),
+            iran,
+        });
+        return env;
+    }
+
+    it("snapshots the variables as each turn begins", async () => {
+        const env = await playNuclearTalks();
+
+        expect(env.stateHistory.map(({ turn, speakerId }) => [turn, speakerId])).toEqual([
+            [0, null], [1, "usa"], [2, "iran"], [3, "usa"],
+        ]);
+        expect(env.getStateAt(0)).toEqual({ enrichment_level_percent: 90, clauses: ["freeze"] });
+        expect(env.getStateAt(3)).toEqual(env.state.variables);
+        expect(Object.isFrozen(env.getStateAt(1).clauses)).toBe(true);
+        expect(() => env.getStateAt(4)).toThrow("No state recorded for turn 4");
+    });
+
+    it("diffs two turns leaf by leaf", async () => {
+        const env = await playNuclearTalks();
+
+        expect(env.diff(0, 3)).toEqual([
+            { path: "enrichment_level_percent", before: 90, after: 55 },
+            { path: "clauses.1", before: undefined, after: "inspect" },
+            { path: "clauses.2", before: undefined, after: "inspect" },
+        ]);
+        expect(env.diff(2, 2)).toEqual([]);
+    });
+
+    it("tells when a variable changed and who changed it", async () => {
+        const env = await playNuclearTalks();
+
+        expect(env.getTimeline("enrichment_level_percent")).toEqual([
+            { turn: 0, speakerId: null, value: 90 },
+            { turn: 2, speakerId: "iran", value: 55 },
+        ]);
+        expect(env.getTimeline("clauses.1")).toEqual([
+            { turn: 0, speakerId: null, value: undefined },
+            { turn: 1, speakerId: "usa", value: "inspect" },
+        ]);
+    });
+});
+
+describe("EnvironmentManager.fork()", () => {
+    function proposal(overrides: object = {}) {
+        return {
+            internal_monologue: "...",
+            public_dialogue: "...",
+            state_mutations: [{ action: "increment", path: "offer", value: 10 }],
+            propose_resolution: false,
+            abort_episode: false,
+            ...overrides,
+        };
+    }
+
+    async function playedEpisode() {
+        const env = new EnvironmentManager(
+            GenericStateObject.parse({ current_speaker_id: "usa", variables: { offer: 0 } }),
+            makeConfig({ max_turns_per_episode: 4 }),
+        );
+        env.turnOrder = ["usa", "iran"];
+        await env.runEpisode({
+            usa: mockAgent("usa", proposal({ propose_resolution: true })),
+            iran: mockAgent("iran", proposal()),
+        });
+        return env;
+    }
+
+    it("rebuilds the state and logs as the turn began", async () => {
+        const env = await playedEpisode();
+        const branch = env.fork(2, { "sanctions.oil": "lifted" });
+
+        expect(branch.state.turn_number).toBe(2);
+        expect(branch.state.is_terminal).toBe(false);
+        expect(branch.state.variables).toEqual({ offer: 20, sanctions: { oil: "lifted" } });
+        expect(branch.actionLogs.map((log) => log.turn)).toEqual([0, 1]);
+        expect(branch.stateHistory.map((snapshot) => snapshot.turn)).toEqual([0, 1, 2]);
+        expect(branch.getStateAt(2)).toEqual(branch.state.variables);
+        expect(branch.turnOrder).toEqual(["usa", "iran"]);
+        // The parent is untouched
+        expect(env.state.variables).toEqual({ offer: 40 });
+    });
+
+    it("restores the pruned logs and summary as the turn began", async () => {
+        const env = new EnvironmentManager(makeState(), makeConfig({ max_turns_per_episode: 9, summarization_frequency: 2 }));
+        env.turnOrder = ["agent_a", "agent_b"];
+        const generateText = vi.fn()
+            .mockResolvedValueOnce({ text: "Summary 1", tokenUsage: 10 })
+            .mockResolvedValueOnce({ text: "Summary 2", tokenUsage: 10 });
+        env.setSummarizer(new Summarizer("Summarize.", { generateText } as unknown as LLMClient));
+        const agent = mockAgent("agent_a", proposal({ state_mutations: [] }));
+        await env.runEpisode({ agent_a: agent, agent_b: agent });
+
+        // Pruned at turns 6 and 8
+        const before = env.fork(5);
+        expect(before.actionLogs.map((log) => log.turn)).toEqual([0, 1, 2, 3, 4]);
+        expect(before.historySummary).toBe("");
+        const after = env.fork(7);
+        expect(after.actionLogs.map((log) => log.turn)).toEqual([2, 3, 4, 5, 6]);
+        expect(after.transcript.map((log) => log.turn)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+        expect(after.historySummary).toBe("Summary 1");
+        expect(after.summaries).toEqual([{ turn: 6, prunedCount: 2, summary: "Summary 1", tokenUsage: 10 }]);
+    });
+
+    it("continues live from the fork point", async () => {
+        const env = await playedEpisode();
+        const branch = env.fork(1);
+
+        // usa proposed resolution on turn 0, so accepting on turn 1 ends the episode
+        const [finalState, logs] = await branch.resumeEpisode({
+            usa: mockAgent("usa", proposal()),
+            iran: mockAgent("iran", proposal({ state_mutations: [], propose_resolution: true })),
+        });
+
+        expect(branch.terminationReason).toBe("agreement");
+        expect(finalState.turn_number).toBe(2);
+        expect(finalState.variables).toEqual({ offer: 10 });
+        expect(logs.map((log) => [log.turn, log.speakerId])).toEqual([[0, "usa"], [1, "iran"]]);
+    });
+
+    it("forks a restored episode", async () => {
+        const env = await playedEpisode();
+        const restored = EnvironmentManager.fromEpisode({
+            finalState: env.state,
+            terminationReason: env.terminationReason,
+            transcript: env.transcript,
+            stateHistory: JSON.parse(JSON.stringify(env.stateHistory)),
+            turnOrder: env.turnOrder,
+            createdAgents: {},
+            summaries: env.summaries,
+            penalties: env.penalties,
+        }, makeConfig());
+
+        expect(restored.fork(3).state.variables).toEqual({ offer: 30 });
+        expect(() => restored.fork(7)).toThrow("No state recorded for turn 7");
+        expect(() => restored.fork(1, { "offer.amount": 5 })).toThrow(InvalidStateError);
+    });
+});
+
+describe("EnvironmentManager actor payload", () => {
+    function scriptedAgent(id: string): ActorAgent {
+        const agent = mockAgent(id, {});
+        let turn = 0;
+        agent.proposeAction = vi.fn().mockImplementation(async () => ({
+            proposal: {
+                internal_monologue: `${id} thought ${turn}`,
+                public_dialogue: `${id} says ${turn}. More detail follows.`,
+                // Touch "deal" once early on, then only "offer" every turn
+                state_mutations: [{ action: "modify", path: turn++ === 0 ? "deal" : "offer", value: turn }],
+                propose_resolution: false,
+                abort_episode: false,
+            },
+            tokenUsage: 10,
+        }));
+        return agent;
+    }
+
+    it("triages transcript, monologues and cold fields by default", async () => {
+        const env = new EnvironmentManager(
+            GenericStateObject.parse({ current_speaker_id: "agent_a", variables: { global_tension_level: 5, deal: 0, offer: 0 } }),
+            makeConfig({ max_turns_per_episode: 10, summarization_frequency: 100 }),
+        );
+        env.turnOrder = ["agent_a", "agent_b"];
+        const agentA = scriptedAgent("agent_a");
+        const agentB = scriptedAgent("agent_b");
+        await env.runEpisode({ agent_a: agentA, agent_b: agentB });
+
+        const payload = (agentA.proposeAction as ReturnType<typeof vi.fn>).mock.calls[4][0];
+        expect(payload.turn_number).toBe(8);
+        expect(payload.public_transcript.map((t: { speaker: string }) => t.speaker)).toEqual(["agent_b", "agent_a", "agent_b"]);
+        expect(payload.earlier_turns[0]).toBe("Turn 0: agent_a — agent_a says 0. [changed: deal]");
+        expect(payload.your_recent_monologues).toEqual(["agent_a thought 2", "agent_a thought 3"]);
+        expect(JSON.stringify(payload)).not.toContain("agent_b thought");
+        expect(payload.archived_fields).toEqual(["deal"]);
+        expect(payload.proposed_state_object).not.toHaveProperty("deal");
+        expect(payload.recently_changed_fields).toEqual(["offer"]);
+    });
+
+    it("trims the transcript to the agent's token budget and reports usage", async () => {
+        const env = new EnvironmentManager(
+            GenericStateObject.parse({ current_speaker_id: "agent_a", variables: { global_tension_level: 5, deal: 0, offer: 0 } }),
+            makeConfig({ max_turns_per_episode: 6, summarization_frequency: 100, context_token_budget: 1_000_000 }),
+        );
+        env.turnOrder = ["agent_a", "agent_b"];
+        const agentA = scriptedAgent("agent_a");
+        // Per-agent budget beats the config; one token per character
+        Object.defineProperty(agentA, "contextTokenBudget", { value: 400 });
+        Object.defineProperty(agentA, "tokenizer", { value: { count: (text: string) => text.length } });
+        agentA.systemPrompt = "You are agent A.";
+
+        const reports: Array<{ speakerId: string; budget: number | null; usage: Record<string, number> }> = [];
+        env.on("context:budget", (report) => reports.push(report));
+        await env.runEpisode({ agent_a: agentA, agent_b: scriptedAgent("agent_b") });
+
+        const last = reports.filter((r) => r.speakerId === "agent_a").at(-1)!;
+        expect(last.budget).toBe(400);
+        const { core, state, recent_turns, summaries } = last.usage;
+        expect(core + state + recent_turns + summaries).toBeLessThanOrEqual(400);
+
+        const payload = (agentA.proposeAction as ReturnType<typeof vi.fn>).mock.calls[2][0];
+        expect(payload.public_transcript.length).toBeLessThan(3);
+        expect(reports.find((r) => r.speakerId === "agent_b")!.budget).toBe(1_000_000);
+    });
+
+    it("sends the whole transcript and state in full mode", async () => {
+        const env = new EnvironmentManager(
+            GenericStateObject.parse({ current_speaker_id: "agent_a", variables: { global_tension_level: 5, deal: 0, offer: 0 } }),
+            makeConfig({ max_turns_per_episode: 10, summarization_frequency: 100, context_mode: "full" }),
+        );
+        env.turnOrder = ["agent_a", "agent_b"];
+        const agentA = scriptedAgent("agent_a");
+        await env.runEpisode({ agent_a: agentA, agent_b: scriptedAgent("agent_b") });
+
+        const payload = (agentA.proposeAction as ReturnType<typeof vi.fn>).mock.calls[4][0];
+        expect(payload.public_transcript).toHaveLength(8);
+        expect(payload.proposed_state_object).toHaveProperty("deal");
+        expect(payload).not.toHaveProperty("your_recent_monologues");
+    });
 });
 
 describe("EnvironmentManager.mountAgent()", () => {
@@ -220,60 +555,153 @@ describe("EnvironmentManager.mountAgent()", () => {
     });
 });
 
-describe("Permission Enforcement", () => {
-    it("throws PermissionViolationError for unauthorized mutation", async () => {
-        const config = makeConfig();
-        const state = makeState();
-        const env = new EnvironmentManager(state, config);
+describe("State Schema", () => {
+    const state_schema = {
+        global_tension_level: { type: "integer" as const, min: 0, max: 10, required: true },
+        "deal.status": { type: "string" as const, enum: ["open", "signed"] },
+        "deal.treaty_id": { type: "string" as const, read_only: true },
+    };
+
+    function proposal(state_mutations: object[]) {
+        return {
+            internal_monologue: "...",
+            public_dialogue: "...",
+            state_mutations,
+            propose_resolution: false,
+            abort_episode: false,
+        };
+    }
 
-        // Mount a created agent with restricted permissions
-        const mockLLM = {} as LLMClient;
-        env.turnOrder = ["agent_a", "agent_b"];
-        env.mountAgent(
-            {
-                agent_id: "broker_01",
-                archetype: "broker",
-                turn_injection_logic: "speak_every_1_turns",
-                system_prompt: "Broker",
-                core_goals: [],
-                permissions: {
-                    can_modify_fields: ["subsidies"],
-                    cannot_modify_fields: ["concessions"],
-                    can_abort_episode: false,
-                    can_propose_resolution: false,
-                    max_state_mutations_per_turn: 1,
-                },
-                design_rationale: "Test",
-            },
-            mockLLM,
+    function schemaEnv() {
+        const env = new EnvironmentManager(
+            GenericStateObject.parse({
+                current_speaker_id: "agent_a",
+                variables: { global_tension_level: 5, deal: { status: "open", treaty_id: "T-1" } },
+            }),
+            makeConfig({ state_schema, max_validation_retries: 2 }),
         );
+        env.turnOrder = ["agent_a"];
+        return env;
+    }
+
+    it("sends invalid mutations back to the actor and applies the corrected proposal", async () => {
+        const env = schemaEnv();
+        const agent = mockAgent("agent_a", {});
+        agent.proposeAction = vi.fn()
+            .mockResolvedValueOnce({
+                proposal: proposal([
+                    { action: "modify", path: "global_tension_level", value: "banana" },
+                    { action: "modify", path: "deal.status", value: "torn_up" },
+                    { action: "add", path: "notes", value: "free-form" },
+                ]),
+                tokenUsage: 10,
+            })
+            .mockResolvedValueOnce({
+                proposal: proposal([{ action: "modify", path: "global_tension_level", value: 9 }]),
+                tokenUsage: 10,
+            });
 
-        // Set turn so broker speaks
-        env.state.turn_number = env.turnOrder.indexOf("broker_01");
+        await env.step({ agent_a: agent });
+
+        expect(agent.appendRetryContext).toHaveBeenCalledWith(
+            'Invalid state_mutations: [0] global_tension_level must be an integer, got "banana"; ' +
+            '[1] deal.status must be one of "open", "signed"',
+        );
+        expect(env.state.variables.global_tension_level).toBe(9);
+        expect(env.actionLogs).toHaveLength(1);
+    });
+
+    it("protects read-only variables, including from writes to their parent", async () => {
+        const env = schemaEnv();
+        const agent = mockAgent("agent_a", proposal([
+            { action: "modify", path: "deal", value: { status: "signed", treaty_id: "T-2" } },
+            { action: "modify", path: "global_tension_level", value: 11 },
+        ]));
+        const penalties: number[] = [];
+        env.on("turn:penalty", ({ retries }) => penalties.push(retries));
+
+        await env.step({ agent_a: agent });
+
+        expect(agent.appendRetryContext).toHaveBeenCalledWith(
+            "Invalid state_mutations: [0] deal.treaty_id is read-only; [1] global_tension_level must be <= 10, got 11",
+        );
+        expect(penalties).toEqual([2]);
+        expect(env.state.variables.deal).toEqual({ status: "open", treaty_id: "T-1" });
+    });
+
+    it("sends back mutations that cannot apply or would remove a required variable", async () => {
+        const env = schemaEnv();
+        const agent = mockAgent("agent_a", {});
+        agent.proposeAction = vi.fn()
+            .mockResolvedValueOnce({
+                proposal: proposal([
+                    { action: "remove", path: "global_tension_level" },
+                    { action: "modify", path: "deal.deadline", value: 30 },
+                    { action: "decrement", path: "global_tension_level", value: 2 },
+                ]),
+                tokenUsage: 10,
+            })
+            .mockResolvedValueOnce({
+                proposal: proposal([{ action: "decrement", path: "global_tension_level", value: 2 }]),
+                tokenUsage: 10,
+            });
+
+        await env.step({ agent_a: agent });
+
+        expect(agent.appendRetryContext).toHaveBeenCalledWith(
+            "Invalid state_mutations: [0] global_tension_level is required; [1] modify: deal.deadline does not exist",
+        );
+        expect(env.state.variables.global_tension_level).toBe(3);
+    });
+
+    it("shows the schema in the actor payload", async () => {
+        const env = schemaEnv();
+        const agent = mockAgent("agent_a", proposal([]));
+        await env.step({ agent_a: agent });
+
+        const payload = vi.mocked(agent.proposeAction).mock.calls[0][0] as unknown as Record<string, unknown>;
+        expect(payload.state_schema).toMatchObject(state_schema);
+    });
 
-        const broker = mockAgent("broker_01", {
+    it("rejects an initial state that breaks the schema", () => {
+        expect(() => new EnvironmentManager(
+            GenericStateObject.parse({ current_speaker_id: "agent_a", variables: {} }),
+            makeConfig({ state_schema }),
+        )).toThrow(InvalidStateError);
+    });
+});
+
+describe("Permission Enforcement", () => {
+    const permissions = {
+        can_modify_fields: ["subsidies"],
+        cannot_modify_fields: ["concessions"],
+        can_abort_episode: false,
+        can_propose_resolution: false,
+        max_state_mutations_per_turn: 1,
+    };
+
+    /** An environment where a restricted broker speaks on every turn. */
+    function brokerEnv(overrides?: Parameters<typeof makeConfig>[0]) {
+        const env = new EnvironmentManager(makeState(), makeConfig(overrides));
+        env.turnOrder = ["broker_01"];
+        env.bindPermissions("broker_01", permissions);
+        return env;
+    }
+
+    function broker(proposal: object): ActorAgent {
+        return mockAgent("broker_01", {
             internal_monologue: "Trying to cheat",
             public_dialogue: "Modifying concessions...",
-            state_mutations: [{ action: "modify", path: "concessions.y", value: 99 }],
+            state_mutations: [],
             propose_resolution: false,
             abort_episode: false,
+            ...proposal,
         });
+    }
 
-        await expect(
-            env.step({
-                agent_a: mockAgent("agent_a", {}),
-                agent_b: mockAgent("agent_b", {}),
-                broker_01: broker,
-            }),
-        ).rejects.toThrow(PermissionViolationError);
-    });
-
-    it("rejects created-agent abort_episode when capability is disabled", async () => {
-        const config = makeConfig();
-        const state = makeState();
-        const env = new EnvironmentManager(state, config);
-        const mockLLM = {} as LLMClient;
-        env.turnOrder = ["agent_a"];
+    it("binds permissions when mounting a created agent", async () => {
+        const env = new EnvironmentManager(makeState(), makeConfig({ permission_violation_policy: "skip_turn" }));
+        env.turnOrder = ["agent_a", "agent_b"];
         env.mountAgent(
             {
                 agent_id: "broker_01",
@@ -281,77 +709,130 @@ describe("Permission Enforcement", () => {
                 turn_injection_logic: "speak_every_1_turns",
                 system_prompt: "Broker",
                 core_goals: [],
-                permissions: {
-                    can_modify_fields: [],
-                    cannot_modify_fields: [],
-                    can_abort_episode: false,
-                    can_propose_resolution: false,
-                    max_state_mutations_per_turn: 1,
-                },
+                permissions,
                 design_rationale: "Test",
             },
-            mockLLM,
+            {} as LLMClient,
         );
+        env.state.turn_number = env.turnOrder.indexOf("broker_01");
 
-        const broker = mockAgent("broker_01", {
-            internal_monologue: "Escalate",
-            public_dialogue: "Abort now",
-            state_mutations: [],
-            propose_resolution: false,
-            abort_episode: true,
+        const violations: string[][] = [];
+        env.on("turn:violation", (event) => violations.push(event.violations));
+        await env.step({
+            agent_a: mockAgent("agent_a", {}),
+            agent_b: mockAgent("agent_b", {}),
+            broker_01: broker({ state_mutations: [{ action: "add", path: "concessions.y", value: 99 }] }),
         });
-        env.state.turn_number = env.turnOrder.indexOf("broker_01");
 
-        await expect(
-            env.step({
-                agent_a: mockAgent("agent_a", {}),
-                broker_01: broker,
+        expect(violations).toEqual([["concessions.y"]]);
+    });
+
+    it("rejects only the offending mutations by default and logs them", async () => {
+        const env = brokerEnv();
+        const violations: string[][] = [];
+        env.on("turn:violation", (event) => violations.push(event.violations));
+
+        await env.step({
+            broker_01: broker({
+                state_mutations: [
+                    { action: "add", path: "concessions.y", value: 99 },
+                    { action: "add", path: "subsidies.farm", value: 10 },
+                ],
+                abort_episode: true,
             }),
-        ).rejects.toThrow(PermissionViolationError);
+        });
+
+        expect(env.state.variables).toEqual({ global_tension_level: 5, subsidies: { farm: 10 } });
+        expect(env.state.is_terminal).toBe(false);
+        expect(env.actionLogs[0]).toMatchObject({
+            public_dialogue: "Modifying concessions...",
+            state_mutations: [{ action: "add", path: "subsidies.farm", value: 10 }],
+            abort_episode: false,
+            permission_violations: ["concessions.y", "abort_episode"],
+        });
+        expect(violations).toEqual([["concessions.y", "abort_episode"]]);
     });
 
-    it("rejects created-agent proposals exceeding max_state_mutations_per_turn", async () => {
-        const config = makeConfig();
-        const state = makeState();
-        const env = new EnvironmentManager(state, config);
-        const mockLLM = {} as LLMClient;
-        env.turnOrder = ["agent_a"];
-        env.mountAgent(
-            {
-                agent_id: "broker_01",
-                archetype: "broker",
-                turn_injection_logic: "speak_every_1_turns",
-                system_prompt: "Broker",
-                core_goals: [],
-                permissions: {
-                    can_modify_fields: ["x"],
-                    cannot_modify_fields: [],
-                    can_abort_episode: false,
-                    can_propose_resolution: false,
-                    max_state_mutations_per_turn: 1,
-                },
-                design_rationale: "Test",
-            },
-            mockLLM,
+    it("snapshots the turn that corrupts the episode, with its permitted mutations", async () => {
+        const env = new EnvironmentManager(
+            GenericStateObject.parse({ current_speaker_id: "broker_01", variables: { subsidies: { farm: 0 } } }),
+            makeConfig({ forced_concession_threshold: 2 }),
         );
+        env.turnOrder = ["broker_01"];
+        env.bindPermissions("broker_01", { ...permissions, max_state_mutations_per_turn: 2 });
+
+        const [finalState] = await env.runEpisode({
+            broker_01: broker({
+                state_mutations: [
+                    { action: "increment", path: "subsidies.farm", value: 10 },
+                    { action: "add", path: "concessions.y", value: 99 },
+                ],
+            }),
+        });
 
-        const broker = mockAgent("broker_01", {
-            internal_monologue: "Two changes",
-            public_dialogue: "Mutate a lot",
-            state_mutations: [
-                { action: "modify", path: "x.a", value: 1 },
-                { action: "modify", path: "x.b", value: 2 },
-            ],
-            propose_resolution: false,
-            abort_episode: false,
+        expect(env.terminationReason).toBe("corrupted");
+        expect(finalState.turn_number).toBe(2);
+        expect(finalState.variables).toEqual({ subsidies: { farm: 20 } });
+        expect(env.getStateAt(2)).toEqual(finalState.variables);
+        expect(env.getTimeline("subsidies.farm")).toEqual([
+            { turn: 0, speakerId: null, value: 0 },
+            { turn: 1, speakerId: "broker_01", value: 10 },
+            { turn: 2, speakerId: "broker_01", value: 20 },
+        ]);
+    });
+
+    it("keeps at most max_state_mutations_per_turn permitted mutations", async () => {
+        const env = brokerEnv();
+        await env.step({
+            broker_01: broker({
+                state_mutations: [
+                    { action: "add", path: "subsidies.a", value: 1 },
+                    { action: "add", path: "subsidies.b", value: 2 },
+                ],
+            }),
         });
-        env.state.turn_number = env.turnOrder.indexOf("broker_01");
 
-        await expect(
-            env.step({
-                agent_a: mockAgent("agent_a", {}),
-                broker_01: broker,
+        expect(env.state.variables.subsidies).toEqual({ a: 1 });
+        expect(env.actionLogs[0].permission_violations).toEqual(["state_mutations"]);
+    });
+
+    it("forfeits the whole turn under the skip_turn policy", async () => {
+        const env = brokerEnv({ permission_violation_policy: "skip_turn" });
+        await env.step({
+            broker_01: broker({
+                state_mutations: [
+                    { action: "add", path: "concessions.y", value: 99 },
+                    { action: "add", path: "subsidies.farm", value: 10 },
+                ],
             }),
-        ).rejects.toThrow(PermissionViolationError);
+        });
+
+        expect(env.state.variables).toEqual({ global_tension_level: 5 });
+        expect(env.state.turn_number).toBe(1);
+        expect(env.actionLogs).toEqual([
+            { turn: 0, speakerId: "broker_01", permission_violations: ["concessions.y"], token_usage: 100 },
+        ]);
+    });
+
+    it("ends the episode as permission_violation under the terminate policy", async () => {
+        const env = brokerEnv({ permission_violation_policy: "terminate" });
+        const [finalState, logs] = await env.runEpisode({
+            broker_01: broker({ propose_resolution: true }),
+        });
+
+        expect(env.terminationReason).toBe("permission_violation");
+        expect(finalState.turn_number).toBe(1);
+        expect(logs[0].permission_violations).toEqual(["propose_resolution"]);
+    });
+
+    it("counts violations toward forced_concession_threshold", async () => {
+        const env = brokerEnv({ forced_concession_threshold: 2 });
+        const agents = {
+            broker_01: broker({ state_mutations: [{ action: "add", path: "concessions.y", value: 99 }] }),
+        };
+
+        await env.step(agents);
+        await expect(env.step(agents)).rejects.toThrow(EpisodeCorruptedError);
+        expect(env.actionLogs).toHaveLength(2);
     });
 });
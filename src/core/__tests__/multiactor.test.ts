@@ -80,10 +80,10 @@ describe("Orchestrator - Multi-Actor Scalability", () => {
             provisioner,
             llmClient: mockLLMClient,
             maxGenerations: 1, // Only 1 generation for test
-            onGenerationComplete: (gen, results) => {
+            onGenerationComplete: (gen, episodes) => {
                 genCompletedCount++;
-                expect(results.length).toBe(config.epoch_size);
-                expect(Object.keys(results[0][1]).length).toBe(5); // 5 agents scored
+                expect(episodes.length).toBe(config.epoch_size);
+                expect(Object.keys(episodes[0].scores).length).toBe(5); // 5 agents scored
             }
         });
 
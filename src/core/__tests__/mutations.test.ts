@@ -0,0 +1,94 @@
+/**
+ * State Mutation Tests — Validate each mutation action and dot-path resolution.
+ */
+import { describe, it, expect } from "vitest";
+import { applyMutation } from "../../core/mutations.js";
+
+function deal(): Record<string, unknown> {
+    return {
+        sanctions_relief: 40,
+        clauses: [{ text: "Freeze enrichment" }, { text: "Lift oil embargo" }],
+        observers: ["IAEA", "UN"],
+        terms: { inspections: { frequency: "monthly", sites: 3 } },
+    };
+}
+
+describe("applyMutation", () => {
+    it("indexes arrays with numeric path segments", () => {
+        const variables = deal();
+        expect(applyMutation(variables, { action: "modify", path: "clauses.1.text", value: "Ease oil embargo" })).toBeNull();
+        expect(variables.clauses).toEqual([{ text: "Freeze enrichment" }, { text: "Ease oil embargo" }]);
+    });
+
+    it("adds new paths, creating objects on the way and inserting into arrays", () => {
+        const variables = deal();
+        expect(applyMutation(variables, { action: "add", path: "annex.a.deadline", value: 30 })).toBeNull();
+        expect(applyMutation(variables, { action: "add", path: "clauses.0", value: { text: "Preamble" } })).toBeNull();
+
+        expect(variables.annex).toEqual({ a: { deadline: 30 } });
+        expect((variables.clauses as unknown[])[0]).toEqual({ text: "Preamble" });
+        expect(variables.clauses).toHaveLength(3);
+    });
+
+    it("reports a modify of a missing path instead of ignoring it", () => {
+        const variables = deal();
+        expect(applyMutation(variables, { action: "modify", path: "terms.verification", value: "on-site" }))
+            .toBe("terms.verification does not exist");
+        expect(applyMutation(variables, { action: "modify", path: "annex.deadline", value: 30 }))
+            .toBe("annex does not exist");
+        expect(applyMutation(variables, { action: "modify", path: "clauses.5.text", value: "?" }))
+            .toBe("clauses.5 is out of range (length 2)");
+        expect(variables).toEqual(deal());
+    });
+
+    it("removes object keys and array elements", () => {
+        const variables = deal();
+        expect(applyMutation(variables, { action: "remove", path: "terms.inspections.sites" })).toBeNull();
+        expect(applyMutation(variables, { action: "remove", path: "clauses.0" })).toBeNull();
+
+        expect(variables.terms).toEqual({ inspections: { frequency: "monthly" } });
+        expect(variables.clauses).toEqual([{ text: "Lift oil embargo" }]);
+    });
+
+    it("increments and decrements numbers, by one unless told otherwise", () => {
+        const variables = deal();
+        expect(applyMutation(variables, { action: "increment", path: "sanctions_relief", value: 10 })).toBeNull();
+        expect(applyMutation(variables, { action: "decrement", path: "terms.inspections.sites" })).toBeNull();
+
+        expect(variables.sanctions_relief).toBe(50);
+        expect((variables.terms as any).inspections.sites).toBe(2);
+        expect(applyMutation(variables, { action: "increment", path: "observers", value: 1 })).toBe("observers is not a number");
+        expect(applyMutation(variables, { action: "increment", path: "sanctions_relief", value: "10%" }))
+            .toBe('value must be a number, got "10%"');
+    });
+
+    it("appends to and removes from arrays", () => {
+        const variables = deal();
+        expect(applyMutation(variables, { action: "append", path: "clauses", value: { text: "Joint commission" } })).toBeNull();
+        expect(applyMutation(variables, { action: "remove_from", path: "clauses", value: { text: "Lift oil embargo" } })).toBeNull();
+
+        expect(variables.clauses).toEqual([{ text: "Freeze enrichment" }, { text: "Joint commission" }]);
+        expect(applyMutation(variables, { action: "remove_from", path: "observers", value: "EU" }))
+            .toBe('observers has no element equal to "EU"');
+        expect(applyMutation(variables, { action: "append", path: "terms", value: "x" })).toBe("terms is not an array");
+    });
+
+    it("deep-merges objects", () => {
+        const variables = deal();
+        expect(applyMutation(variables, {
+            action: "merge",
+            path: "terms",
+            value: { inspections: { frequency: "weekly" }, verification: "on-site" },
+        })).toBeNull();
+
+        expect(variables.terms).toEqual({ inspections: { frequency: "weekly", sites: 3 }, verification: "on-site" });
+        expect(applyMutation(variables, { action: "merge", path: "observers", value: {} })).toBe("observers is not an object");
+    });
+
+    it("rejects paths that would reach the object prototype", () => {
+        const variables = deal();
+        expect(applyMutation(variables, { action: "add", path: "__proto__.polluted", value: true }))
+            .toBe("__proto__.polluted is not a valid path");
+        expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+});
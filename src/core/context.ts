@@ -5,6 +5,7 @@
  */
 import type { GenericStateObject } from "../schemas/state.js";
 import type { ActionLogEntry } from "../agents/capitalizer.js";
+import type { Tokenizer } from "./tokenizer.js";
 
 /**
  * The triage context tiers:
@@ -27,31 +28,46 @@ export interface TriageContext {
 /**
  * Build a triage context for an agent, pruning old turns to control token usage.
  *
+ * @param historySummary The Summarizer's recursive summary of turns already
+ *   pruned from `actionLogs` (see `EnvironmentManager.historySummary`).
  * @see docs/context_management_and_summarization.md §1 — Multi-Tiered Context Stack
  */
 export function buildTriageContext(
     actionLogs: ActionLogEntry[],
     _agentId: string,
+    historySummary: string = "",
 ): TriageContext {
     // Tier 2: Last 3 turns — full resolution
     const recentTurns = actionLogs.slice(-3);
 
     // Tier 3: Turns 4–10 — high-level bullet points
     const midRange = actionLogs.slice(-10, -3);
-    const condensedRecent = midRange.map(
-        (log) => `Turn ${log.turn}: ${log.speakerId} — ${(log.public_dialogue as string || "").slice(0, 100)}`,
-    );
+    const condensedRecent = midRange.map(condenseTurn);
 
-    // Tier 4: Everything older — recursive summary
+    // Tier 4: Everything older — recursive summary. Turns older than the window
+    // that have not been folded into the summary yet are kept as bullets.
     const oldLogs = actionLogs.slice(0, -10);
-    const deepHistorySummary =
-        oldLogs.length > 0
-            ? `[Summary of ${oldLogs.length} earlier turns: Negotiation covered topics including state mutations and strategic exchanges.]`
-            : "";
+    const deepHistorySummary = [historySummary, ...oldLogs.map(condenseTurn)]
+        .filter(Boolean)
+        .join("\n");
 
     return { recentTurns, condensedRecent, deepHistorySummary };
 }
 
+/**
+ * Condense a turn into a bullet: the speaker, the first sentence of what was
+ * said, and the state paths it changed.
+ */
+function condenseTurn(log: ActionLogEntry): string {
+    const text = (log.public_dialogue ?? log.headline ?? "") as string;
+    const firstSentence = text.match(/^[^.!?]*[.!?]?/)?.[0].trim() ?? "";
+    const paths = Array.isArray(log.state_mutations)
+        ? (log.state_mutations as Array<{ path: string }>).map((m) => m.path)
+        : [];
+    const changes = paths.length > 0 ? ` [changed: ${paths.join(", ")}]` : "";
+    return `Turn ${log.turn}: ${log.speakerId} — ${firstSentence}${changes}`;
+}
+
 /**
  * Classify state fields by recency of mutation.
  *
@@ -108,3 +124,119 @@ export function pruneMonologues(
     // Only the last 2 monologues
     return agentLogs.slice(-2);
 }
+
+/**
+ * Collapse cold fields out of the state variables. Cold paths are removed from
+ * the visible copy and listed as archived instead; hot, warm and never-mutated
+ * fields stay at full resolution.
+ *
+ * @see docs/context_management_and_summarization.md §3 — Semantic State Pruning
+ */
+export function collapseColdFields(
+    variables: Record<string, unknown>,
+    classification: FieldClassification,
+): { visible: Record<string, unknown>; archived: string[] } {
+    const visible = structuredClone(variables);
+    const active = [...classification.hot, ...classification.warm];
+    const archived: string[] = [];
+
+    for (const path of classification.cold) {
+        // A cold parent of a still-active field stays visible
+        if (active.some((p) => p.startsWith(`${path}.`))) continue;
+
+        const parts = path.split(".");
+        let current: unknown = visible;
+        for (const key of parts.slice(0, -1)) {
+            current = current && typeof current === "object" ? (current as Record<string, unknown>)[key] : undefined;
+        }
+        const finalKey = parts[parts.length - 1];
+        if (current && typeof current === "object" && finalKey in current) {
+            delete (current as Record<string, unknown>)[finalKey];
+            archived.push(path);
+        }
+    }
+
+    return { visible, archived };
+}
+
+/** Tokens consumed by each tier of a budgeted context. */
+export interface TierTokenUsage {
+    core: number;
+    state: number;
+    recent_turns: number;
+    summaries: number;
+}
+
+/** The candidate content of each tier, before budgeting. */
+export interface ContextTiers {
+    /** Tier 1: the system prompt (immutable core + strategy). Always included. */
+    core: string;
+    /** The current state and turn metadata. Always included. */
+    state: Record<string, unknown>;
+    /** Tier 2: recent transcript entries, oldest first. */
+    recentTurns: unknown[];
+    /** Tier 3: condensed bullets, oldest first. */
+    condensedRecent: string[];
+    /** Tier 4: the recursive summary. */
+    deepHistorySummary: string;
+}
+
+/** The tier content that fit the budget, plus per-tier token counts. */
+export interface BudgetedContext {
+    recentTurns: unknown[];
+    condensedRecent: string[];
+    deepHistorySummary: string;
+    usage: TierTokenUsage;
+}
+
+/**
+ * Fill context tiers in priority order — core, state, recent turns, then
+ * summaries — until the token budget is spent. Core and state are always
+ * kept (even over budget); within the transcript tiers the newest entries
+ * are kept first, and an entry that does not fit ends that tier.
+ *
+ * @see docs/context_management_and_summarization.md §1 — Multi-Tiered Context Stack
+ */
+export function buildBudgetedContext(
+    tiers: ContextTiers,
+    budget: number,
+    tokenizer: Tokenizer,
+): BudgetedContext {
+    const count = (value: unknown) => tokenizer.count(typeof value === "string" ? value : JSON.stringify(value));
+    const usage: TierTokenUsage = {
+        core: count(tiers.core),
+        state: count(tiers.state),
+        recent_turns: 0,
+        summaries: 0,
+    };
+    let remaining = budget - usage.core - usage.state;
+
+    // Take entries newest-first while they fit, preserving chronological order
+    const takeNewest = <T>(entries: T[]): { kept: T[]; tokens: number } => {
+        const kept: T[] = [];
+        let tokens = 0;
+        for (let i = entries.length - 1; i >= 0; i--) {
+            const cost = count(entries[i]);
+            if (cost > remaining) break;
+            remaining -= cost;
+            tokens += cost;
+            kept.unshift(entries[i]);
+        }
+        return { kept, tokens };
+    };
+
+    const recent = takeNewest(tiers.recentTurns);
+    usage.recent_turns = recent.tokens;
+
+    const condensed = takeNewest(tiers.condensedRecent);
+    usage.summaries = condensed.tokens;
+
+    let deepHistorySummary = "";
+    const summaryCost = count(tiers.deepHistorySummary);
+    if (tiers.deepHistorySummary && summaryCost <= remaining) {
+        deepHistorySummary = tiers.deepHistorySummary;
+        usage.summaries += summaryCost;
+    }
+
+    return { recentTurns: recent.kept, condensedRecent: condensed.kept, deepHistorySummary, usage };
+}
@@ -9,7 +9,7 @@
  * @see docs/system_architecture.md §2 — The Execution Loop
  */
 import { EventEmitter } from "events";
-import type { GenericStateObject } from "../schemas/state.js";
+import type { GenericStateObject, StateMutation } from "../schemas/state.js";
 import type { FrameworkConfig } from "../schemas/config.js";
 import type { AgentPermissions } from "../schemas/meta.js";
 import { ActionProposal } from "../schemas/actions.js";
@@ -20,21 +20,46 @@ import type { NewAgentProvisioning as NewAgentProvisioningType } from "../schema
 import { ActorAgent } from "../agents/actor.js";
 import type { Capitalizer, ActionLogEntry } from "../agents/capitalizer.js";
 import type { TensionDisruptor, InformationDisruptor } from "../agents/disruptor.js";
+import type { Summarizer } from "../agents/summarizer.js";
+import {
+    buildBudgetedContext,
+    buildTriageContext,
+    classifyStateFields,
+    collapseColdFields,
+    pruneMonologues,
+} from "./context.js";
+import type { TierTokenUsage } from "./context.js";
+import { approximateTokenizer } from "./tokenizer.js";
+import { findStateViolations, valueAt } from "./state-schema.js";
+import type { ContextSummary, EpisodeRecord, Penalty } from "./episode.js";
+import { applyMutation } from "./mutations.js";
+import { takeSnapshot, snapshotAt, diffVariables, variableTimeline } from "./state-history.js";
+import type { StateSnapshot, StateChange, TimelinePoint } from "./state-history.js";
 import {
     EpisodeCorruptedError,
-    PermissionViolationError,
+    InvalidStateError,
     MaxAgentsExceededError,
     CostLimitExceededError,
+    RunCostLimitExceededError,
+    RunCancelledError,
 } from "../errors/index.js";
 
 /** Supported events emitted by the EnvironmentManager. */
 export interface EnvironmentEvents {
     "episode:start": [{ state: GenericStateObject }];
-    "turn:complete": [{ speakerId: string; proposal: ActionProposalType }];
+    "turn:complete": [{ speakerId: string; proposal: ActionProposalType; logEntry: ActionLogEntry }];
     "turn:penalty": [{ speakerId: string; retries: number }];
+    /** A created agent exceeded its permissions; `logEntry` records the violations. */
+    "turn:violation": [{
+        speakerId: string;
+        violations: string[];
+        policy: FrameworkConfig["permission_violation_policy"];
+        logEntry: ActionLogEntry;
+    }];
     "episode:complete": [{ finalState: GenericStateObject; reason: string }];
     "agent:created": [{ spec: NewAgentProvisioningType }];
-    "context:summarized": [{ prunedCount: number }];
+    "context:summarized": [{ prunedCount: number; summary: string }];
+    "context:budget": [{ speakerId: string; budget: number | null; usage: TierTokenUsage }];
 }
 
 export class EnvironmentManager extends EventEmitter {
@@ -45,12 +70,40 @@ export class EnvironmentManager extends EventEmitter {
     // Enforced by docs/system_architecture.md §4 — Turn Sequence Modification
     public turnOrder: string[] = [];
 
-    /** Full action log for the current episode. */
+    /** Action log for the current episode, less the turns pruned into `historySummary`. */
     public actionLogs: ActionLogEntry[] = [];
 
+    /**
+     * Every entry ever added to `actionLogs` in the current episode, in order,
+     * including pruned ones. This is the episode's record.
+     */
+    public transcript: ActionLogEntry[] = [];
+
+    /**
+     * Compressed Episode History of the turns pruned from `actionLogs`.
+     * Empty unless a Summarizer is registered.
+     */
+    public historySummary: string = "";
+
+    /** Every summarization of the current episode, so its context can be rebuilt at any turn. */
+    public summaries: ContextSummary[] = [];
+
+    /** Every forced concession penalty of the current episode. */
+    public penalties: Penalty[] = [];
+
     /** Reason the current episode terminated. */
     public terminationReason: string = "timeout";
 
+    /** Tokens used by the current episode, including summarization. */
+    public tokenUsage: number = 0;
+
+    /**
+     * One frozen snapshot of the variables per turn of the current episode,
+     * starting with the initial state.
+     * @see docs/agent_design_and_state.md §6 — State History
+     */
+    public stateHistory: StateSnapshot[];
+
     /** Tracks forced concession penalties per agent. */
     private penaltyCount: Record<string, number> = {};
 
@@ -68,16 +121,29 @@ export class EnvironmentManager extends EventEmitter {
     /** Optional Capitalizer for strategic interjections. */
     private capitalizer?: Capitalizer;
 
+    /** Optional Summarizer for deep history compression. */
+    private summarizer?: Summarizer;
+
     /** Optional tension disruptor. */
     private tensionAgent?: TensionDisruptor;
 
     /** Optional information disruptor. */
     private infoDisruptor?: InformationDisruptor;
 
+    /**
+     * @throws InvalidStateError if the initial state breaks `config.state_schema`.
+     */
     constructor(initialState: GenericStateObject, config: FrameworkConfig) {
         super();
         this.state = structuredClone(initialState);
         this.config = config;
+        if (config.state_schema) {
+            const violations = findStateViolations(config.state_schema, this.state.variables);
+            if (violations.length > 0) {
+                throw new InvalidStateError(violations.map((v) => `${v.path} ${v.message}`));
+            }
+        }
+        this.stateHistory = [takeSnapshot(this.state.turn_number, null, this.state.variables)];
     }
 
     /** Register a Capitalizer for strategic interjections. */
@@ -85,6 +151,11 @@ export class EnvironmentManager extends EventEmitter {
         this.capitalizer = capitalizer;
     }
 
+    /** Register a Summarizer to compress pruned turns. */
+    setSummarizer(summarizer: Summarizer): void {
+        this.summarizer = summarizer;
+    }
+
     /** Register a tension disruptor. */
     setTensionAgent(agent: TensionDisruptor): void {
         this.tensionAgent = agent;
@@ -101,8 +172,9 @@ export class EnvironmentManager extends EventEmitter {
      *
      * @see docs/engineering_implementation.md §6 — EnvironmentManager.step()
      * @see docs/system_architecture.md §2 — The Execution Loop
+     * @param signal Aborts the turn's LLM calls with RunCancelledError.
      */
-    async step(agents: Record<string, ActorAgent>): Promise<number> {
+    async step(agents: Record<string, ActorAgent>, signal?: AbortSignal): Promise<number> {
         const speakerId = this.turnOrder[this.state.turn_number % this.turnOrder.length];
         const agent = agents[speakerId];
         if (!agent) throw new Error(`No agent mounted for speaker: ${speakerId}`);
@@ -113,28 +185,14 @@ export class EnvironmentManager extends EventEmitter {
         // Enforced by docs/system_architecture.md §2 — Step 2
         if (this.capitalizer) {
             const recentLogs = this.actionLogs.slice(-4);
-            const hint = await this.capitalizer.analyzeOverlap(this.state, recentLogs);
+            const hint = await this.capitalizer.analyzeOverlap(this.state, recentLogs, signal);
             this.state.injections = { capitalizer_hint: hint.strategic_hint };
         }
 
         // 2. Build the Documented EnvironmentState Payload
-        const environmentStatePayload = {
-            turn_number: this.state.turn_number,
-            max_turns: this.config.max_turns_per_episode,
-            current_speaker_id: speakerId,
-            public_transcript: this.actionLogs.map((log) => {
-                if (log.speakerId === "disruptor_info") {
-                    return { speaker: log.speakerId, text: log.headline };
-                }
-                return { speaker: log.speakerId, text: log.public_dialogue };
-            }).filter(entry => entry.text !== undefined),
-            proposed_state_object: this.state.variables,
-            environmental_variables: {
-                global_tension_level: this.state.variables.global_tension_level,
-                ...this.state.variables
-            },
-            injections: this.state.injections
-        };
+        const environmentStatePayload = this.config.context_mode === "triaged"
+            ? this.buildTriagedPayload(agent)
+            : this.buildFullPayload(speakerId);
 
         // 3. Agent proposes action (with validation retry loop)
         // Enforced by docs/api_and_interfaces.md §2 — Level 1: Validation Retry Loop
@@ -144,16 +202,23 @@ export class EnvironmentManager extends EventEmitter {
         while (retries < this.config.max_validation_retries) {
             try {
                 // Pass the enriched payload instead of the generic state
-                const result = await agent.proposeAction(environmentStatePayload as unknown as GenericStateObject);
+                const result = await agent.proposeAction(environmentStatePayload as unknown as GenericStateObject, signal);
                 turnTokenUsage += result.tokenUsage;
                 proposal = ActionProposal.parse(result.proposal);
-                break;
+
+                // Mutations must apply and keep the state within its declared schema
+                // Enforced by docs/agent_design_and_state.md §2A and §5
+                const invalid = this.draftMutations(proposal.state_mutations).problems;
+                if (invalid.length === 0) break;
+                proposal = null;
+                retries++;
+                this.retryWith(agent, retries, `Invalid state_mutations: ${invalid.join("; ")}`);
             } catch (err: unknown) {
                 if (err && typeof err === "object" && "issues" in err) {
 
                     retries++;
                     const message = err instanceof Error ? err.message : String(err);
-                    agent.appendRetryContext(message);
+                    this.retryWith(agent, retries, message);
                 } else {
                     throw err;
                 }
@@ -163,40 +228,44 @@ export class EnvironmentManager extends EventEmitter {
         // 4. Fallback: forced concession penalty
         // Enforced by docs/api_and_interfaces.md §2 — Level 2 & 3
         if (!proposal) {
-            this.penaltyCount[speakerId] = (this.penaltyCount[speakerId] ?? 0) + 1;
-            if (this.penaltyCount[speakerId] >= this.config.forced_concession_threshold) {
-                this.state.is_terminal = true;
-                throw new EpisodeCorruptedError(speakerId);
-            }
+            this.penalize(speakerId);
             this.emit("turn:penalty", { speakerId, retries });
-            this.state.turn_number++;
+            this.endTurn(speakerId);
             return turnTokenUsage; // Skip turn — opponent gains minor structural concession
         }
 
         // 5. Validate permissions (created agents have restricted field access)
         // Enforced by docs/self_creation_mechanics.md §2 — Permissions Binding
-        const permissions = this.agentPermissions[speakerId];
-        if (permissions) {
-            if (proposal.state_mutations.length > permissions.max_state_mutations_per_turn) {
-                throw new PermissionViolationError(speakerId, "state_mutations");
-            }
-            if (proposal.abort_episode && !permissions.can_abort_episode) {
-                throw new PermissionViolationError(speakerId, "abort_episode");
-            }
-            if (proposal.propose_resolution && !permissions.can_propose_resolution) {
-                throw new PermissionViolationError(speakerId, "propose_resolution");
+        const violations = this.findViolations(speakerId, proposal);
+        const policy = this.config.permission_violation_policy;
+        if (violations.length > 0 && policy !== "reject_mutations") {
+            // The whole turn is forfeited
+            const logEntry: ActionLogEntry = {
+                turn: this.state.turn_number,
+                speakerId,
+                permission_violations: violations,
+                token_usage: turnTokenUsage,
+            };
+            this.appendLog(logEntry);
+            this.emit("turn:violation", { speakerId, violations, policy, logEntry });
+            this.lastProposalWasFinal = false;
+            if (policy === "terminate") {
+                // Counted, but the episode ends as permission_violation rather than corrupted
+                this.countPenalty(speakerId);
+                this.state.is_terminal = true;
+                this.terminationReason = "permission_violation";
+            } else {
+                this.penalize(speakerId);
             }
+            this.endTurn(speakerId);
+            return turnTokenUsage;
         }
-        for (const mutation of proposal.state_mutations) {
-            if (!this.isPermitted(speakerId, mutation.path)) {
-                throw new PermissionViolationError(speakerId, mutation.path);
-            }
+        if (violations.length > 0) {
+            proposal = this.withinPermissions(speakerId, proposal);
         }
 
-        // 6. Apply state mutations
-        for (const mutation of proposal.state_mutations) {
-            this.applyMutation(mutation);
-        }
+        // 6. Apply state mutations (any that no longer apply once others were dropped are skipped)
+        this.state.variables = this.draftMutations(proposal.state_mutations).variables;
 
         // 7. Check termination conditions
         // Enforced by docs/agent_design_and_state.md §4 — Disconnects and Finalization
@@ -219,23 +288,29 @@ export class EnvironmentManager extends EventEmitter {
             state_mutations: proposal.state_mutations,
             propose_resolution: proposal.propose_resolution,
             abort_episode: proposal.abort_episode,
+            token_usage: turnTokenUsage,
+            ...(violations.length > 0 ? { permission_violations: violations } : {}),
         };
-        this.actionLogs.push(logEntry);
-        this.emit("turn:complete", { speakerId, proposal });
+        this.appendLog(logEntry);
+        this.emit("turn:complete", { speakerId, proposal, logEntry });
+        if (violations.length > 0) {
+            this.emit("turn:violation", { speakerId, violations, policy, logEntry });
+            this.penalize(speakerId);
+        }
 
         // 9. Disruptor checks
         // Enforced by docs/system_architecture.md §2 — Steps 6-7
         if (this.tensionAgent) {
-            const tension = await this.tensionAgent.observe(this.actionLogs, this.state);
+            const tension = await this.tensionAgent.observe(this.actionLogs, this.state, signal);
             this.state.variables.global_tension_level = tension.new_tension_level;
         }
         if (
             this.infoDisruptor &&
             this.state.turn_number % this.config.info_disruptor_frequency === 0
         ) {
-            const report = await this.infoDisruptor.observe(this.actionLogs, this.state);
+            const report = await this.infoDisruptor.observe(this.actionLogs, this.state, signal);
             if (report.inject_into_transcript) {
-                this.actionLogs.push({
+                this.appendLog({
                     turn: this.state.turn_number,
                     speakerId: "disruptor_info",
                     ...report,
@@ -243,65 +318,222 @@ export class EnvironmentManager extends EventEmitter {
             }
         }
 
-        this.state.turn_number++;
+        this.endTurn(speakerId);
         return turnTokenUsage;
     }
 
+    /** Add an entry to the live action log and to the episode's transcript. */
+    private appendLog(entry: ActionLogEntry): void {
+        this.actionLogs.push(entry);
+        this.transcript.push(entry);
+    }
+
+    /** Advance to the next turn and snapshot the state it begins with. */
+    private endTurn(speakerId: string): void {
+        this.state.turn_number++;
+        this.stateHistory.push(takeSnapshot(this.state.turn_number, speakerId, this.state.variables));
+    }
+
+    /**
+     * The variables as `turn` began; the turn after the last one played gives
+     * the current state. The snapshot is frozen.
+     * @throws Error if no snapshot was taken for that turn.
+     */
+    getStateAt(turn: number): Readonly<Record<string, unknown>> {
+        const snapshot = snapshotAt(this.stateHistory, turn);
+        if (!snapshot) throw new Error(`No state recorded for turn ${turn}`);
+        return snapshot.variables;
+    }
+
+    /** Every variable that changed between the start of `turnA` and the start of `turnB`. */
+    diff(turnA: number, turnB: number): StateChange[] {
+        return diffVariables(this.getStateAt(turnA), this.getStateAt(turnB));
+    }
+
+    /** The value of one variable at every turn it changed, and who changed it. */
+    getTimeline(path: string): TimelinePoint[] {
+        return variableTimeline(this.stateHistory, path);
+    }
+
+    /**
+     * The full EnvironmentState payload: the entire retained transcript and state.
+     * @see docs/agent_design_and_state.md §1 — The EnvironmentState Object
+     */
+    private buildFullPayload(speakerId: string): Record<string, unknown> {
+        return {
+            turn_number: this.state.turn_number,
+            max_turns: this.config.max_turns_per_episode,
+            current_speaker_id: speakerId,
+            public_transcript: this.actionLogs
+                .map((log) => this.toTranscriptEntry(log))
+                .filter(entry => entry.text !== undefined),
+            ...(this.historySummary ? { episode_summary: this.historySummary } : {}),
+            proposed_state_object: this.state.variables,
+            ...(this.config.state_schema ? { state_schema: this.config.state_schema } : {}),
+            environmental_variables: {
+                global_tension_level: this.state.variables.global_tension_level,
+                ...this.state.variables
+            },
+            injections: this.state.injections
+        };
+    }
+
+    /**
+     * The triaged EnvironmentState payload: the tiered transcript, the speaker's
+     * own last two monologues, and state with cold fields collapsed. Tiers are
+     * filled within the agent's token budget and the usage is emitted.
+     * @see docs/context_management_and_summarization.md — Full protocol
+     */
+    private buildTriagedPayload(agent: ActorAgent): Record<string, unknown> {
+        const speakerId = agent.id;
+        const triage = buildTriageContext(this.actionLogs, speakerId, this.historySummary);
+        const fields = classifyStateFields(this.actionLogs, this.state.turn_number);
+        const { visible, archived } = collapseColdFields(this.state.variables, fields);
+        const ownMonologues = pruneMonologues(this.actionLogs, speakerId);
+
+        const state = {
+            turn_number: this.state.turn_number,
+            max_turns: this.config.max_turns_per_episode,
+            current_speaker_id: speakerId,
+            ...(ownMonologues.length > 0 ? { your_recent_monologues: ownMonologues } : {}),
+            proposed_state_object: visible,
+            // The legal values for state_mutations
+            ...(this.config.state_schema ? { state_schema: this.config.state_schema } : {}),
+            ...(fields.hot.length > 0 ? { recently_changed_fields: fields.hot } : {}),
+            ...(archived.length > 0 ? { archived_fields: archived } : {}),
+            environmental_variables: {
+                global_tension_level: this.state.variables.global_tension_level,
+            },
+            injections: this.state.injections
+        };
+
+        const budget = agent.contextTokenBudget ?? this.config.context_token_budget;
+        const context = buildBudgetedContext(
+            {
+                core: agent.systemPrompt,
+                state,
+                // Tier 2: full resolution, public fields only
+                recentTurns: triage.recentTurns
+                    .map((log) => ({ ...this.toTranscriptEntry(log), state_mutations: log.state_mutations }))
+                    .filter(entry => entry.text !== undefined),
+                condensedRecent: triage.condensedRecent,
+                deepHistorySummary: triage.deepHistorySummary,
+            },
+            budget ?? Infinity,
+            agent.tokenizer ?? approximateTokenizer,
+        );
+        this.emit("context:budget", { speakerId, budget: budget ?? null, usage: context.usage });
+
+        return {
+            ...state,
+            public_transcript: context.recentTurns,
+            ...(context.condensedRecent.length > 0 ? { earlier_turns: context.condensedRecent } : {}),
+            ...(context.deepHistorySummary ? { episode_summary: context.deepHistorySummary } : {}),
+        };
+    }
+
+    private toTranscriptEntry(log: ActionLogEntry): { speaker: string; text: unknown } {
+        if (log.speakerId === "disruptor_info") {
+            return { speaker: log.speakerId, text: log.headline };
+        }
+        return { speaker: log.speakerId, text: log.public_dialogue };
+    }
+
     /**
      * Run a complete episode: loop step() until terminal or max_turns.
+     * If `signal` fires, the episode stops with the `cancelled` termination
+     * reason and returns the turns played so far.
      *
      * @see docs/engineering_implementation.md §6 — EnvironmentManager.runEpisode()
      */
     async runEpisode(
         agents: Record<string, ActorAgent>,
+        signal?: AbortSignal,
     ): Promise<[GenericStateObject, ActionLogEntry[]]> {
         // Reset episode state
         this.state.is_terminal = false;
         this.state.turn_number = 0;
+        this.stateHistory = [takeSnapshot(0, null, this.state.variables)];
         this.actionLogs = [];
+        this.transcript = [];
+        this.historySummary = "";
+        this.summaries = [];
+        this.penalties = [];
         this.terminationReason = "timeout";
         this.penaltyCount = {};
         this.lastProposalWasFinal = false;
         this.emit("episode:start", { state: structuredClone(this.state) });
 
-        let tokenUsage = 0;
+        this.tokenUsage = 0;
+        return this.resumeEpisode(agents, signal);
+    }
 
+    /**
+     * Play on from the current state without resetting it, e.g. a branch
+     * returned by fork(). Ends like runEpisode().
+     */
+    async resumeEpisode(
+        agents: Record<string, ActorAgent>,
+        signal?: AbortSignal,
+    ): Promise<[GenericStateObject, ActionLogEntry[]]> {
         while (
             !this.state.is_terminal &&
             this.state.turn_number < this.config.max_turns_per_episode
         ) {
             try {
-                tokenUsage += await this.step(agents);
+                if (signal?.aborted) throw new RunCancelledError(signal.reason);
+                this.tokenUsage += await this.step(agents, signal);
                 // Cost circuit breaker
                 // Enforced by docs/safety_and_sandboxing.md §3 — Hard Token Limits
-                if (tokenUsage > this.config.max_episode_tokens) {
-                    throw new CostLimitExceededError(tokenUsage, this.config.max_episode_tokens);
+                if (this.tokenUsage > this.config.max_episode_tokens) {
+                    throw new CostLimitExceededError(this.tokenUsage, this.config.max_episode_tokens);
+                }
+
+                // 10. Context Maintenance (Summarization)
+                // Enforced by docs/system_architecture.md §2 — Step 9 (Context Maintenance)
+                if (this.state.turn_number > 0 && this.state.turn_number % this.config.summarization_frequency === 0) {
+                    // Prune old action logs (keep only the last 2N turns to prevent context window explosion),
+                    // folding them into the recursive summary first
+                    // Enforced by docs/context_management_and_summarization.md §2 — Recursive Summarization Protocol
+                    const keepCount = this.config.summarization_frequency * 2;
+                    if (this.actionLogs.length > keepCount) {
+                        const pruned = this.actionLogs.slice(0, -keepCount);
+                        let summaryTokens = 0;
+                        if (this.summarizer) {
+                            const result = await this.summarizer.summarize(this.historySummary, pruned, this.state, signal);
+                            this.historySummary = result.text;
+                            summaryTokens = result.tokenUsage;
+                            this.tokenUsage += summaryTokens;
+                        }
+                        this.actionLogs = this.actionLogs.slice(-keepCount);
+                        this.summaries.push({
+                            turn: this.state.turn_number,
+                            prunedCount: pruned.length,
+                            summary: this.historySummary,
+                            tokenUsage: summaryTokens,
+                        });
+                        this.emit("context:summarized", { prunedCount: pruned.length, summary: this.historySummary });
+                    }
                 }
             } catch (err) {
+                if (err instanceof RunCancelledError) {
+                    this.terminationReason = "cancelled";
+                    this.state.is_terminal = true;
+                    break;
+                }
                 if (err instanceof EpisodeCorruptedError) {
                     this.terminationReason = "corrupted";
                     this.state.is_terminal = true;
                     break;
                 }
-                if (err instanceof CostLimitExceededError) {
+                // The run-level dollar cap ends the whole run, not just this episode
+                if (err instanceof CostLimitExceededError && !(err instanceof RunCostLimitExceededError)) {
                     this.terminationReason = "token_limit";
                     this.state.is_terminal = true;
                     break;
                 }
                 throw err;
             }
-
-            // 10. Context Maintenance (Summarization)
-            // Enforced by docs/system_architecture.md §2 — Step 9 (Context Maintenance)
-            if (this.state.turn_number > 0 && this.state.turn_number % this.config.summarization_frequency === 0) {
-                // Prune old action logs (keep only the last 2N turns to prevent context window explosion)
-                const keepCount = this.config.summarization_frequency * 2;
-                if (this.actionLogs.length > keepCount) {
-                    const prunedCount = this.actionLogs.length - keepCount;
-                    this.actionLogs = this.actionLogs.slice(-keepCount);
-                    this.emit("context:summarized", { prunedCount });
-                }
-            }
         }
 
         const finalState = structuredClone(this.state);
@@ -309,6 +541,77 @@ export class EnvironmentManager extends EventEmitter {
         return [finalState, this.actionLogs];
     }
 
+    /**
+     * Restore a played episode from its record, e.g. one loaded with
+     * SqliteDatabase.getEpisode(), so it can be inspected or forked: its
+     * context as it ended, and the permissions of its created agents.
+     */
+    static fromEpisode(
+        episode: Pick<
+            EpisodeRecord,
+            "finalState" | "terminationReason" | "transcript" | "stateHistory" | "turnOrder" | "createdAgents" | "summaries" | "penalties"
+        >,
+        config: FrameworkConfig,
+    ): EnvironmentManager {
+        const env = new EnvironmentManager(episode.finalState, config);
+        env.turnOrder = [...episode.turnOrder];
+        env.transcript = structuredClone(episode.transcript);
+        env.summaries = [...episode.summaries];
+        env.penalties = [...episode.penalties];
+        env.restoreContext(Infinity);
+        env.stateHistory = [...episode.stateHistory];
+        env.terminationReason = episode.terminationReason;
+        for (const [agentId, spec] of Object.entries(episode.createdAgents)) {
+            env.bindPermissions(agentId, spec.permissions);
+        }
+        return env;
+    }
+
+    /**
+     * Branch the episode as `turn` began: a new EnvironmentManager with that
+     * turn's state, context, penalties and history, and the same turn order
+     * and permissions. Continue it with resumeEpisode() after registering the
+     * same meta-agents, which are not carried over.
+     *
+     * @param variables Values to set at the fork point, keyed by dot path.
+     * @throws Error if no snapshot was taken for that turn.
+     * @throws InvalidStateError if an override cannot apply or breaks `config.state_schema`.
+     * @see docs/agent_design_and_state.md §7 — Forking an Episode
+     */
+    fork(turn: number, variables: Record<string, unknown> = {}): EnvironmentManager {
+        const snapshot = snapshotAt(this.stateHistory, turn);
+        if (!snapshot) throw new Error(`No state recorded for turn ${turn}`);
+
+        const state: GenericStateObject = {
+            ...structuredClone(this.state),
+            turn_number: turn,
+            is_terminal: false,
+            variables: structuredClone(snapshot.variables),
+            injections: undefined,
+        };
+        const problems: string[] = [];
+        for (const [path, value] of Object.entries(variables)) {
+            const action = valueAt(state.variables, path) === undefined ? "add" : "modify";
+            const problem = applyMutation(state.variables, { action, path, value });
+            if (problem) problems.push(problem);
+        }
+        if (problems.length > 0) throw new InvalidStateError(problems);
+
+        const branch = new EnvironmentManager(state, this.config);
+        branch.turnOrder = [...this.turnOrder];
+        branch.transcript = structuredClone(this.transcript);
+        branch.summaries = [...this.summaries];
+        branch.penalties = [...this.penalties];
+        branch.restoreContext(turn);
+        branch.stateHistory = [
+            ...this.stateHistory.filter((earlier) => earlier.turn < turn),
+            takeSnapshot(turn, snapshot.speakerId, state.variables),
+        ];
+        branch.agentPermissions = { ...this.agentPermissions };
+        branch.createdAgentIds = new Set(this.createdAgentIds);
+        return branch;
+    }
+
     /**
      * Validate and inject a Provisioner-designed agent into the live turn order.
      *
@@ -336,8 +639,7 @@ export class EnvironmentManager extends EventEmitter {
         });
 
         // 4. Register permissions (enforced in step())
-        this.agentPermissions[validated.agent_id] = validated.permissions;
-        this.createdAgentIds.add(validated.agent_id);
+        this.bindPermissions(validated.agent_id, validated.permissions);
 
         // 5. Extend turn order based on turn_injection_logic
         // e.g., "speak_every_3_turns" → insert after every 3rd existing slot
@@ -353,6 +655,68 @@ export class EnvironmentManager extends EventEmitter {
         return newAgent;
     }
 
+    /**
+     * Restrict an agent to a permissions scope and count it as a created agent.
+     * `mountAgent()` does this itself. Call it for created agents that are
+     * already mounted when they play in a fresh environment.
+     *
+     * @see docs/self_creation_mechanics.md §2 — Phase 4: Permissions Binding
+     */
+    bindPermissions(agentId: string, permissions: AgentPermissions): void {
+        this.agentPermissions[agentId] = permissions;
+        this.createdAgentIds.add(agentId);
+    }
+
+    /**
+     * Count a forced concession penalty against an agent.
+     * @throws EpisodeCorruptedError once the agent reaches forced_concession_threshold.
+     */
+    private penalize(speakerId: string): void {
+        if (this.countPenalty(speakerId) >= this.config.forced_concession_threshold) {
+            this.state.is_terminal = true;
+            // The corrupting turn still counts, with any mutations it already applied
+            this.endTurn(speakerId);
+            throw new EpisodeCorruptedError(speakerId);
+        }
+    }
+
+    /**
+     * List the parts of a proposal outside the speaker's permissions: restricted
+     * paths, "state_mutations" for too many mutations, and the abort_episode
+     * and propose_resolution flags. Empty for primary actors.
+     */
+    private findViolations(speakerId: string, proposal: ActionProposalType): string[] {
+        const permissions = this.agentPermissions[speakerId];
+        if (!permissions) return [];
+
+        const violations = proposal.state_mutations
+            .filter((mutation) => !this.isPermitted(speakerId, mutation.path))
+            .map((mutation) => mutation.path);
+        const permittedCount = proposal.state_mutations.length - violations.length;
+        if (permittedCount > permissions.max_state_mutations_per_turn) violations.push("state_mutations");
+        if (proposal.abort_episode && !permissions.can_abort_episode) violations.push("abort_episode");
+        if (proposal.propose_resolution && !permissions.can_propose_resolution) violations.push("propose_resolution");
+        return violations;
+    }
+
+    /**
+     * Strip a proposal down to what the speaker may do: drop restricted
+     * mutations, keep at most max_state_mutations_per_turn of the rest, and
+     * clear forbidden flags.
+     */
+    private withinPermissions(speakerId: string, proposal: ActionProposalType): ActionProposalType {
+        const permissions = this.agentPermissions[speakerId];
+        if (!permissions) return proposal;
+        return {
+            ...proposal,
+            state_mutations: proposal.state_mutations
+                .filter((mutation) => this.isPermitted(speakerId, mutation.path))
+                .slice(0, permissions.max_state_mutations_per_turn),
+            abort_episode: proposal.abort_episode && permissions.can_abort_episode,
+            propose_resolution: proposal.propose_resolution && permissions.can_propose_resolution,
+        };
+    }
+
     /**
      * Check if an agent is permitted to modify a given state path.
      * Primary actors have full access. Created agents are restricted.
@@ -376,27 +740,72 @@ export class EnvironmentManager extends EventEmitter {
     }
 
     /**
-     * Apply a single state mutation using dot-path notation.
+     * Hand the validation error to the agent for its next attempt. Nothing is
+     * left behind after the last one, since agents are shared across episodes.
+     */
+    private retryWith(agent: ActorAgent, retries: number, message: string): void {
+        if (retries < this.config.max_validation_retries) agent.appendRetryContext(message);
+    }
+
+    /**
+     * Apply mutations in order to a draft of the state, checking each against
+     * `config.state_schema`. A mutation that cannot apply or would break the
+     * schema is left out of the draft, so later ones are judged on their own,
+     * and reported with its index.
      * @see docs/agent_design_and_state.md §2A — state_mutations
      */
-    private applyMutation(mutation: { action: string; path: string; value: unknown }): void {
-        const parts = mutation.path.split(".");
-        let current: Record<string, unknown> = this.state.variables as Record<string, unknown>;
-
-        for (let i = 0; i < parts.length - 1; i++) {
-            const key = parts[i];
-            if (!(key in current) || typeof current[key] !== "object") {
-                if (mutation.action === "add") {
-                    current[key] = {};
-                } else {
-                    return; // Can't modify a path that doesn't exist
-                }
+    private draftMutations(mutations: StateMutation[]): { variables: Record<string, unknown>; problems: string[] } {
+        const schema = this.config.state_schema;
+        const problems: string[] = [];
+        let draft = structuredClone(this.state.variables);
+        mutations.forEach((mutation, index) => {
+            const next = structuredClone(draft);
+            const problem = applyMutation(next, mutation);
+            if (problem) {
+                problems.push(`[${index}] ${mutation.action}: ${problem}`);
+                return;
             }
-            current = current[key] as Record<string, unknown>;
-        }
+            // Only variables on the mutated path are this mutation's doing
+            const violations = schema
+                ? findStateViolations(schema, next, this.state.variables).filter((v) => pathsOverlap(v.path, mutation.path))
+                : [];
+            if (violations.length === 0) {
+                draft = next;
+            } else {
+                problems.push(...violations.map((v) => `[${index}] ${v.path} ${v.message}`));
+            }
+        });
+        return { variables: draft, problems };
+    }
 
-        const finalKey = parts[parts.length - 1];
-        current[finalKey] = structuredClone(mutation.value);
+    /** Record a forced concession penalty and return the agent's total. */
+    private countPenalty(speakerId: string): number {
+        this.penalties.push({ turn: this.state.turn_number, speakerId });
+        this.penaltyCount[speakerId] = (this.penaltyCount[speakerId] ?? 0) + 1;
+        return this.penaltyCount[speakerId];
+    }
+
+    /**
+     * Rebuild the context as `turn` began: the transcript before it, less the
+     * entries pruned by then, and the summary at that point.
+     */
+    private restoreContext(turn: number): void {
+        const summaries = this.summaries.filter((summary) => summary.turn <= turn);
+        const played = this.transcript.filter((log) => log.turn < turn);
+        const prunedCount = summaries.reduce((total, summary) => total + summary.prunedCount, 0);
+        this.transcript = played;
+        this.actionLogs = played.slice(prunedCount);
+        this.historySummary = summaries[summaries.length - 1]?.summary ?? "";
+        this.summaries = summaries;
+        this.tokenUsage = sumTokens(played) + summaries.reduce((total, summary) => total + summary.tokenUsage, 0);
+        this.penalties = this.penalties.filter((penalty) => penalty.turn < turn);
+        this.penaltyCount = {};
+        for (const { speakerId } of this.penalties) {
+            this.penaltyCount[speakerId] = (this.penaltyCount[speakerId] ?? 0) + 1;
+        }
+        // A resolution proposed on the turn before still awaits its answer
+        const previous = played.filter((log) => log.turn === turn - 1 && !log.speakerId.startsWith("disruptor_"));
+        this.lastProposalWasFinal = previous[previous.length - 1]?.propose_resolution === true;
     }
 
     /**
@@ -410,3 +819,13 @@ export class EnvironmentManager extends EventEmitter {
         return 1;
     }
 }
+
+/** Tokens spent on the logged turns. */
+function sumTokens(logs: ActionLogEntry[]): number {
+    return logs.reduce((total, log) => total + (log.token_usage ?? 0), 0);
+}
+
+/** Whether one dot path equals the other or lies beneath it. */
+function pathsOverlap(a: string, b: string): boolean {
+    return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
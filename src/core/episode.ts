@@ -0,0 +1,71 @@
+/**
+ * Episode Records — Everything one completed episode produced.
+ *
+ * The orchestrator builds one record per epoch episode and hands the batch to
+ * the Mutator, the Provisioner and `onGenerationComplete`, so they can see why
+ * an episode ended the way it did, not only its final state and score.
+ *
+ * @see docs/self_improvement_loop.md §3A — Phase A: Generation
+ */
+import type { GenericStateObject } from "../schemas/state.js";
+import type { ActionLogEntry } from "../agents/capitalizer.js";
+import type { StateSnapshot } from "./state-history.js";
+import type { NewAgentProvisioning } from "../schemas/meta.js";
+
+/** The strategy an agent played an episode with. */
+export interface AgentVersion {
+    strategy: string;
+    hyperparameters: { temperature?: number; frequency_penalty?: number };
+}
+
+/** A summarization that pruned the actors' context during an episode. */
+export interface ContextSummary {
+    /** The turn it ran before. */
+    turn: number;
+    /** How many action log entries it pruned from the front of the context. */
+    prunedCount: number;
+    /** The recursive summary from then on. Empty without a Summarizer. */
+    summary: string;
+    tokenUsage: number;
+}
+
+/** A forced concession penalty counted against an agent. */
+export interface Penalty {
+    turn: number;
+    speakerId: string;
+}
+
+/** A completed, judged episode. */
+export interface EpisodeRecord {
+    /** Episode ID. Matches the `Episodes` row when a database is attached. */
+    id: string;
+    generation: number;
+    finalState: GenericStateObject;
+    /** Judge score per agent, from -5 to +5. */
+    scores: Record<string, number>;
+    /** The Judge's justification for each agent's score. */
+    rationales: Record<string, string>;
+    /** e.g. "agreement", "abort_episode", "timeout", "corrupted", "token_limit", "permission_violation". */
+    terminationReason: string;
+    /** Every turn in order, including turns pruned from the actors' context. */
+    transcript: ActionLogEntry[];
+    /** The variables as each turn began, from the initial state to the final one. */
+    stateHistory: StateSnapshot[];
+    /** Tokens the episode used, including summarization. Excludes the Judge. */
+    tokenUsage: number;
+    turnCount: number;
+    /** Which version of each agent played, keyed by agent ID. */
+    agentVersions: Record<string, AgentVersion>;
+    /** The order agents took turns in, including mounted created agents. */
+    turnOrder: string[];
+    /** The Provisioner spec of each created agent that played, keyed by agent ID. */
+    createdAgents: Record<string, NewAgentProvisioning>;
+    /** Every summarization of the actors' context, in order. */
+    summaries: ContextSummary[];
+    /** Every forced concession penalty, in order. */
+    penalties: Penalty[];
+    /** For a forked episode, the episode it branched from. */
+    parentEpisodeId?: string;
+    /** For a forked episode, the turn it branched at and played live first. */
+    forkTurn?: number;
+}
@@ -1,3 +1,25 @@
 export { EnvironmentManager } from "./environment.js";
-export { buildTriageContext, classifyStateFields, pruneMonologues } from "./context.js";
-export type { TriageContext, FieldClassification } from "./context.js";
+export {
+    buildTriageContext,
+    classifyStateFields,
+    pruneMonologues,
+    collapseColdFields,
+    buildBudgetedContext,
+} from "./context.js";
+export type {
+    TriageContext,
+    FieldClassification,
+    ContextTiers,
+    BudgetedContext,
+    TierTokenUsage,
+} from "./context.js";
+export type { EpisodeRecord, AgentVersion, ContextSummary, Penalty } from "./episode.js";
+export { findStateViolations, valueAt } from "./state-schema.js";
+export { applyMutation } from "./mutations.js";
+export { diffVariables, variableTimeline, snapshotAt } from "./state-history.js";
+export type { StateSnapshot, StateChange, TimelinePoint } from "./state-history.js";
+export type { StateViolation } from "./state-schema.js";
+export { approximateTokenizer } from "./tokenizer.js";
+export type { Tokenizer } from "./tokenizer.js";
+export { createSeededRandom, hashString } from "./random.js";
+export type { RandomSource } from "./random.js";
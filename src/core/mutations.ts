@@ -0,0 +1,129 @@
+/**
+ * State Mutations — Applies an ActionProposal's state_mutations to the state variables.
+ *
+ * Paths are dot paths within `variables`. A numeric segment indexes an array,
+ * e.g. "clauses.2.text". A mutation is checked before anything changes, so one
+ * that cannot apply leaves the variables untouched and reports why.
+ *
+ * @see docs/agent_design_and_state.md §2A — state_mutations
+ */
+import { isDeepStrictEqual } from "util";
+import type { StateMutation } from "../schemas/state.js";
+
+type Container = Record<string, unknown> | unknown[];
+
+/** Keys that would reach Object.prototype rather than the state. */
+const UNSAFE_KEYS = new Set(["__proto__", "prototype", "constructor"]);
+
+/**
+ * Apply one mutation to `variables` in place.
+ * @returns Why the mutation cannot apply, or null once it has.
+ */
+export function applyMutation(variables: Record<string, unknown>, mutation: StateMutation): string | null {
+    const { action, path } = mutation;
+    const keys = path.split(".");
+    if (keys.some((key) => key === "" || UNSAFE_KEYS.has(key))) return `${path} is not a valid path`;
+
+    const parent = resolveParent(variables, keys, action === "add");
+    if (typeof parent === "string") return parent;
+    const key = keys[keys.length - 1];
+
+    let index = -1;
+    if (Array.isArray(parent)) {
+        index = toIndex(key);
+        const limit = action === "add" ? parent.length : parent.length - 1;
+        if (index < 0 || index > limit) return `${path} is out of range (length ${parent.length})`;
+    }
+    const exists = Array.isArray(parent) ? index < parent.length : Object.hasOwn(parent, key);
+    const current = exists ? (parent as Record<string, unknown>)[key] : undefined;
+    const value = structuredClone(mutation.value);
+
+    if (action === "add") {
+        if (Array.isArray(parent)) parent.splice(index, 0, value);
+        else parent[key] = value;
+        return null;
+    }
+    if (!exists) return `${path} does not exist`;
+
+    switch (action) {
+        case "modify":
+            (parent as Record<string, unknown>)[key] = value;
+            return null;
+        case "remove":
+            if (Array.isArray(parent)) parent.splice(index, 1);
+            else delete parent[key];
+            return null;
+        case "increment":
+        case "decrement": {
+            if (typeof current !== "number") return `${path} is not a number`;
+            const amount = value ?? 1;
+            if (typeof amount !== "number" || !Number.isFinite(amount)) return `value must be a number, got ${JSON.stringify(value)}`;
+            (parent as Record<string, unknown>)[key] = action === "increment" ? current + amount : current - amount;
+            return null;
+        }
+        case "append":
+            if (!Array.isArray(current)) return `${path} is not an array`;
+            current.push(value);
+            return null;
+        case "remove_from": {
+            if (!Array.isArray(current)) return `${path} is not an array`;
+            const kept = current.filter((item) => !isDeepStrictEqual(item, value));
+            if (kept.length === current.length) return `${path} has no element equal to ${JSON.stringify(value)}`;
+            (parent as Record<string, unknown>)[key] = kept;
+            return null;
+        }
+        case "merge":
+            if (!isPlainObject(current)) return `${path} is not an object`;
+            if (!isPlainObject(value)) return `value must be an object, got ${JSON.stringify(value)}`;
+            mergeInto(current, value);
+            return null;
+    }
+}
+
+/**
+ * Walk to the container that holds the path's last segment. `add` creates
+ * missing objects on the way; every other action needs the path to exist.
+ */
+function resolveParent(variables: Record<string, unknown>, keys: string[], create: boolean): Container | string {
+    let current: Container = variables;
+    for (let i = 0; i < keys.length - 1; i++) {
+        const key = keys[i];
+        const prefix = keys.slice(0, i + 1).join(".");
+        let child: unknown;
+        if (Array.isArray(current)) {
+            const index = toIndex(key);
+            if (index < 0 || index >= current.length) return `${prefix} is out of range (length ${current.length})`;
+            child = current[index];
+        } else {
+            if (!Object.hasOwn(current, key)) {
+                if (!create) return `${prefix} does not exist`;
+                current[key] = {};
+            }
+            child = current[key];
+        }
+        if (child === null || typeof child !== "object") return `${prefix} is not an object or array`;
+        current = child as Container;
+    }
+    return current;
+}
+
+/** An array index segment, or -1 if the segment is not one. */
+function toIndex(key: string): number {
+    return /^\d+$/.test(key) ? Number(key) : -1;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Deep-merge `source` into `target`: nested objects merge, anything else replaces. */
+function mergeInto(target: Record<string, unknown>, source: Record<string, unknown>): void {
+    for (const [key, value] of Object.entries(source)) {
+        if (UNSAFE_KEYS.has(key)) continue;
+        if (isPlainObject(target[key]) && isPlainObject(value)) {
+            mergeInto(target[key] as Record<string, unknown>, value);
+        } else {
+            target[key] = value;
+        }
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Seeded Randomness — Small deterministic PRNG utilities.
+ *
+ * Framework-side randomness must be reproducible from a seed, so nothing in
+ * the library should call Math.random() directly.
+ */
+
+/** A function returning a uniformly distributed float in [0, 1). */
+export type RandomSource = () => number;
+
+/**
+ * Create a seeded PRNG (mulberry32). The same seed always yields the same sequence.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Hash a string to a 32-bit unsigned integer (FNV-1a).
+ * Useful for deriving stable sub-seeds from content.
+ */
+export function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
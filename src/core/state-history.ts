@@ -0,0 +1,96 @@
+/**
+ * State History — Per-turn snapshots of the state variables and the diffs between them.
+ *
+ * The EnvironmentManager records one frozen snapshot as each turn begins, so an
+ * episode's history answers "what was the state at turn N", "what changed
+ * between two turns" and "who moved this variable when". Snapshots travel with
+ * the EpisodeRecord and are persisted with the episode.
+ *
+ * @see docs/agent_design_and_state.md §6 — State History
+ */
+import { isDeepStrictEqual } from "util";
+import { valueAt } from "./state-schema.js";
+
+/** The state variables as one turn began. */
+export interface StateSnapshot {
+    turn: number;
+    /** Who spoke the turn before, which produced this state. Null for the initial state. */
+    speakerId: string | null;
+    variables: Record<string, unknown>;
+}
+
+/** One leaf value that differs between two states. */
+export interface StateChange {
+    /** Dot path within `variables`; numeric segments index arrays. */
+    path: string;
+    /** Undefined if the path was added. */
+    before: unknown;
+    /** Undefined if the path was removed. */
+    after: unknown;
+}
+
+/** A variable's value from `turn` on, until the next point of its timeline. */
+export interface TimelinePoint {
+    turn: number;
+    /** Who set the value, on the turn before. Null for the initial value. */
+    speakerId: string | null;
+    /** Undefined while the variable does not exist. */
+    value: unknown;
+}
+
+/** Freeze a copy of the variables as a snapshot. */
+export function takeSnapshot(
+    turn: number,
+    speakerId: string | null,
+    variables: Record<string, unknown>,
+): StateSnapshot {
+    return deepFreeze({ turn, speakerId, variables: structuredClone(variables) });
+}
+
+/** The snapshot taken as `turn` began, or undefined if the history has none. */
+export function snapshotAt(history: StateSnapshot[], turn: number): StateSnapshot | undefined {
+    return history.find((snapshot) => snapshot.turn === turn);
+}
+
+/**
+ * Every leaf that differs between two sets of variables. Objects and arrays are
+ * compared member by member, so a changed clause reports as `clauses.2.text`.
+ */
+export function diffVariables(before: unknown, after: unknown, path: string = ""): StateChange[] {
+    if (isDeepStrictEqual(before, after)) return [];
+    if (!isContainer(before) || !isContainer(after) || Array.isArray(before) !== Array.isArray(after)) {
+        return [{ path, before, after }];
+    }
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+        diffVariables(
+            (before as Record<string, unknown>)[key],
+            (after as Record<string, unknown>)[key],
+            path ? `${path}.${key}` : key,
+        ),
+    );
+}
+
+/** The value of one variable at every turn it changed, starting from the first snapshot. */
+export function variableTimeline(history: StateSnapshot[], path: string): TimelinePoint[] {
+    const points: TimelinePoint[] = [];
+    for (const snapshot of history) {
+        const value = valueAt(snapshot.variables, path);
+        const previous = points[points.length - 1];
+        if (previous && isDeepStrictEqual(previous.value, value)) continue;
+        points.push({ turn: snapshot.turn, speakerId: snapshot.speakerId, value });
+    }
+    return points;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+    return value !== null && typeof value === "object";
+}
+
+function deepFreeze<T>(value: T): T {
+    if (isContainer(value)) {
+        for (const child of Object.values(value)) deepFreeze(child);
+        Object.freeze(value);
+    }
+    return value;
+}
@@ -0,0 +1,80 @@
+/**
+ * State Schema Validation — Checks state variables against a declared StateSchema.
+ *
+ * The EnvironmentManager validates the initial state once and every turn's
+ * mutations against a draft of the state, so a state that satisfies its schema
+ * keeps satisfying it.
+ *
+ * @see docs/agent_design_and_state.md §5 — Declaring a State Schema
+ */
+import { isDeepStrictEqual } from "util";
+import type { StateSchema, StateVariableSpec } from "../schemas/state.js";
+
+/** One way a state breaks its schema. */
+export interface StateViolation {
+    /** Dot path of the declared variable. */
+    path: string;
+    message: string;
+}
+
+/** Read the value at a dot path, or undefined if any segment is missing. */
+export function valueAt(variables: Record<string, unknown>, path: string): unknown {
+    let current: unknown = variables;
+    for (const key of path.split(".")) {
+        if (current === null || typeof current !== "object" || !(key in current)) return undefined;
+        current = (current as Record<string, unknown>)[key];
+    }
+    return current;
+}
+
+/**
+ * Check `variables` against every declared variable. With `previous`, read-only
+ * variables must also still hold their previous value.
+ */
+export function findStateViolations(
+    schema: StateSchema,
+    variables: Record<string, unknown>,
+    previous?: Record<string, unknown>,
+): StateViolation[] {
+    const violations: StateViolation[] = [];
+    for (const [path, spec] of Object.entries(schema)) {
+        const value = valueAt(variables, path);
+        if (previous && spec.read_only && !isDeepStrictEqual(value, valueAt(previous, path))) {
+            violations.push({ path, message: "is read-only" });
+            continue;
+        }
+        if (value === undefined) {
+            if (spec.required) violations.push({ path, message: "is required" });
+            continue;
+        }
+        const message = checkValue(spec, value);
+        if (message) violations.push({ path, message });
+    }
+    return violations;
+}
+
+function checkValue(spec: StateVariableSpec, value: unknown): string | null {
+    if (!hasType(spec.type, value)) return `must be ${article(spec.type)} ${spec.type}, got ${JSON.stringify(value)}`;
+    if (spec.enum && !spec.enum.some((option) => option === value)) {
+        return `must be one of ${spec.enum.map((option) => JSON.stringify(option)).join(", ")}`;
+    }
+    if (typeof value === "number") {
+        if (spec.min !== undefined && value < spec.min) return `must be >= ${spec.min}, got ${value}`;
+        if (spec.max !== undefined && value > spec.max) return `must be <= ${spec.max}, got ${value}`;
+    }
+    return null;
+}
+
+function hasType(type: StateVariableSpec["type"], value: unknown): boolean {
+    switch (type) {
+        case "number": return typeof value === "number" && Number.isFinite(value);
+        case "integer": return Number.isInteger(value);
+        case "array": return Array.isArray(value);
+        case "object": return value !== null && typeof value === "object" && !Array.isArray(value);
+        default: return typeof value === type;
+    }
+}
+
+function article(type: string): string {
+    return /^[aeiou]/.test(type) ? "an" : "a";
+}
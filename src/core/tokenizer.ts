@@ -0,0 +1,24 @@
+/**
+ * Tokenizers — Pluggable token counting for context budgeting.
+ *
+ * Exact counts depend on the model's vocabulary, so the framework only needs
+ * a `Tokenizer` interface. Plug in a real tokenizer (e.g. tiktoken) per agent
+ * via `ActorAgentOptions.tokenizer`; otherwise the approximate one is used.
+ */
+
+/** Counts the tokens a model would see for a piece of text. */
+export interface Tokenizer {
+    count(text: string): number;
+}
+
+/**
+ * Built-in approximation: ~4 characters per token, but never fewer tokens
+ * than words. Close enough for English prose and JSON on common BPE vocabularies.
+ */
+export const approximateTokenizer: Tokenizer = {
+    count(text: string): number {
+        if (!text) return 0;
+        const words = text.split(/\s+/).filter(Boolean).length;
+        return Math.max(Math.ceil(text.length / 4), words);
+    },
+};
@@ -8,6 +8,12 @@ import {
     MaxAgentsExceededError,
     UnsafeAgentDesignError,
     CostLimitExceededError,
+    RunCostLimitExceededError,
+    CassetteMissError,
+    LLMTransientError,
+    LLMTimeoutError,
+    RunCancelledError,
+    throwIfCancelled,
 } from "../../errors/index.js";
 
 describe("EpisodeCorruptedError", () => {
@@ -51,3 +57,51 @@ describe("CostLimitExceededError", () => {
         expect(err.tokenLimit).toBe(50000);
     });
 });
+
+describe("RunCostLimitExceededError", () => {
+    it("is a CostLimitExceededError carrying dollar amounts", () => {
+        const err = new RunCostLimitExceededError(5.25, 5, 120000);
+        expect(err).toBeInstanceOf(CostLimitExceededError);
+        expect(err.costUsd).toBe(5.25);
+        expect(err.costLimitUsd).toBe(5);
+        expect(err.tokensUsed).toBe(120000);
+        expect(err.message).toContain("$5.2500");
+    });
+});
+
+describe("CassetteMissError", () => {
+    it("contains the request key", () => {
+        const err = new CassetteMissError("abc123");
+        expect(err.key).toBe("abc123");
+        expect(err.message).toContain("abc123");
+    });
+});
+
+describe("LLMTransientError", () => {
+    it("lists the models tried and keeps the cause", () => {
+        const cause = new Error("HTTP 503");
+        const err = new LLMTransientError(["openai/gpt-5", "anthropic/claude"], 6, cause);
+        expect(err.attempts).toBe(6);
+        expect(err.cause).toBe(cause);
+        expect(err.message).toContain("openai/gpt-5 -> anthropic/claude");
+    });
+
+    it("has a timeout subclass", () => {
+        const err = new LLMTimeoutError(["openai/gpt-5"], 3, 5000);
+        expect(err).toBeInstanceOf(LLMTransientError);
+        expect(err.timeoutMs).toBe(5000);
+        expect(err.message).toContain("5000ms");
+    });
+});
+
+describe("RunCancelledError", () => {
+    it("is thrown once a signal has fired, carrying its reason", () => {
+        const controller = new AbortController();
+        expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+        expect(() => throwIfCancelled(undefined)).not.toThrow();
+
+        controller.abort("user interrupt");
+        expect(() => throwIfCancelled(controller.signal)).toThrow(RunCancelledError);
+        expect(new RunCancelledError("user interrupt").cause).toBe("user interrupt");
+    });
+});
@@ -37,6 +37,21 @@ export class PermissionViolationError extends Error {
     }
 }
 
+/**
+ * Thrown when an episode's initial state does not satisfy the configured
+ * `state_schema`. Invalid mutations are sent back to the actor instead.
+ * @see docs/agent_design_and_state.md §5 — Declaring a State Schema
+ */
+export class InvalidStateError extends Error {
+    public readonly violations: string[];
+
+    constructor(violations: string[]) {
+        super(`Invalid state: ${violations.join("; ")}.`);
+        this.name = "InvalidStateError";
+        this.violations = violations;
+    }
+}
+
 /**
  * Thrown when the Provisioner attempts to spawn more agents than
  * the configured max_active_created_agents cap.
@@ -79,3 +94,94 @@ export class CostLimitExceededError extends Error {
         this.tokenLimit = tokenLimit;
     }
 }
+
+/**
+ * Thrown when a run's total LLM spend exceeds max_run_cost_usd. Unlike its
+ * per-episode parent, it is never absorbed as an episode termination: it
+ * aborts the whole run. `tokenLimit` is Infinity since the cap is in dollars.
+ * @see docs/safety_and_sandboxing.md §3 — Hard Token Limits
+ */
+export class RunCostLimitExceededError extends CostLimitExceededError {
+    public readonly costUsd: number;
+    public readonly costLimitUsd: number;
+
+    constructor(costUsd: number, costLimitUsd: number, tokensUsed: number) {
+        super(tokensUsed, Infinity);
+        this.message = `Run cost limit exceeded: Spent $${costUsd.toFixed(4)} (limit: $${costLimitUsd.toFixed(2)}).`;
+        this.name = "RunCostLimitExceededError";
+        this.costUsd = costUsd;
+        this.costLimitUsd = costLimitUsd;
+    }
+}
+
+/**
+ * Thrown in cassette replay mode when a request has no recorded response left,
+ * i.e. the run diverged from the recording.
+ */
+export class CassetteMissError extends Error {
+    public readonly key: string;
+
+    constructor(key: string) {
+        super(`Cassette miss: No recorded response left for request ${key}.`);
+        this.name = "CassetteMissError";
+        this.key = key;
+    }
+}
+
+/**
+ * Thrown when an LLM request keeps failing with transient errors (rate limits,
+ * 5xx responses, dropped connections) after every retry on every model in the
+ * fallback chain. The orchestrator drops the affected episode or trial rather
+ * than failing the generation.
+ * @see docs/api_and_interfaces.md §2 — Error Handling & Fallbacks
+ */
+export class LLMTransientError extends Error {
+    /** `provider/model` keys tried, in fallback order. */
+    public readonly models: string[];
+    /** Total attempts across all models. */
+    public readonly attempts: number;
+
+    constructor(models: string[], attempts: number, cause?: unknown) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(`LLM request failed after ${attempts} attempt(s) on ${models.join(" -> ")}: ${reason}`, { cause });
+        this.name = "LLMTransientError";
+        this.models = models;
+        this.attempts = attempts;
+    }
+}
+
+/**
+ * Thrown when the last attempt of an LLM request exceeded its per-request
+ * timeout. A timed-out request is retried like any transient failure.
+ * @see docs/api_and_interfaces.md §2 — Error Handling & Fallbacks
+ */
+export class LLMTimeoutError extends LLMTransientError {
+    public readonly timeoutMs: number;
+
+    constructor(models: string[], attempts: number, timeoutMs: number) {
+        super(models, attempts, new Error(`Timed out after ${timeoutMs}ms`));
+        this.name = "LLMTimeoutError";
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Thrown when a run's AbortSignal fires. In-flight LLM requests are aborted
+ * and the orchestrator ends the run with a `cancelled` termination reason,
+ * returning whatever it has completed so far.
+ * @see docs/api_and_interfaces.md §3 — Cancellation
+ */
+export class RunCancelledError extends Error {
+    constructor(reason?: unknown) {
+        super("Run cancelled.", { cause: reason });
+        this.name = "RunCancelledError";
+    }
+}
+
+/**
+ * Throw RunCancelledError if the signal has fired.
+ * @throws RunCancelledError
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new RunCancelledError(signal.reason);
+}
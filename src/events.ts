@@ -0,0 +1,101 @@
+/**
+ * Simulation Events — The typed event bus a run reports through.
+ *
+ * `runFullSimulation` emits every lifecycle event on one SimulationEventBus.
+ * Pass your own bus as `OrchestratorOptions.events` to subscribe before the
+ * run starts. Progress UIs, loggers and the SQLite RunRecorder all attach
+ * to the same bus.
+ *
+ * @see docs/api_and_interfaces.md §2 — Simulation Events
+ */
+import { EventEmitter } from "events";
+import type { ActorAgent } from "./agents/actor.js";
+import type { ActionLogEntry } from "./agents/capitalizer.js";
+import type { EpisodeRecord, AgentVersion } from "./core/episode.js";
+import type { ActionProposal } from "./schemas/actions.js";
+import type { NewAgentProvisioning } from "./schemas/meta.js";
+import type { ConvergenceHypothesis } from "./schemas/explorer.js";
+import type { FrameworkConfig } from "./schemas/config.js";
+import type { CostRecord } from "./llm/cost.js";
+import type { GenerationSummary, CreatedAgentSummary } from "./orchestrator.js";
+
+/**
+ * Why an episode was played: a generation's epoch, a shadow trial of a
+ * mutation variant, a shadow trial of a Provisioner-created agent, or a
+ * counterfactual branch of a recorded episode (see forkEpisode).
+ */
+export type EpisodeKind = "epoch" | "mutation_trial" | "creation_trial" | "fork";
+
+/** Identifies the episode an in-episode event belongs to. */
+export interface EpisodeRef {
+    episodeId: string;
+    generation: number;
+    kind: EpisodeKind;
+}
+
+/** The outcome of a Mutator acceptance test. */
+export interface MutationDecision {
+    generation: number;
+    agentId: string;
+    /** Lower confidence bound of the best variant's shadow scores. */
+    lcb: number;
+    /** Mann-Whitney U p-value of the best variant against the baseline. */
+    pValue: number;
+    baselineMean: number;
+}
+
+/** Every event a run emits, with its payload. */
+export interface SimulationEvents {
+    "generation:start": [{ generation: number; activeAgents: Record<string, ActorAgent> }];
+    /** After mutation, creation and the checkpoint for the generation. */
+    "generation:complete": [{ generation: number; episodes: EpisodeRecord[]; summary: GenerationSummary }];
+    "episode:start": [EpisodeRef];
+    /** Not emitted for episodes dropped after LLM failures. */
+    "episode:complete": [EpisodeRef & { record: EpisodeRecord }];
+    "turn:complete": [EpisodeRef & { speakerId: string; proposal: ActionProposal; logEntry: ActionLogEntry }];
+    "turn:penalty": [EpisodeRef & { speakerId: string; retries: number }];
+    /** A created agent exceeded its permissions, handled per `permission_violation_policy`. */
+    "turn:violation": [EpisodeRef & {
+        speakerId: string;
+        violations: string[];
+        policy: FrameworkConfig["permission_violation_policy"];
+    }];
+    "mutation:variants-generated": [{ generation: number; agentId: string; variants: AgentVersion[] }];
+    /** One batch of shadow trials for a mutation variant or a created agent. */
+    "shadow-trial:result": [{
+        generation: number;
+        agentId: string;
+        kind: Exclude<EpisodeKind, "epoch" | "fork">;
+        version: AgentVersion;
+        /** True for the short Turn-3 culling trials. */
+        fastPrune: boolean;
+        scores: number[];
+    }];
+    "mutation:accepted": [MutationDecision & { version: AgentVersion }];
+    "mutation:rejected": [MutationDecision];
+    "provisioner:designed": [{ generation: number; spec: NewAgentProvisioning }];
+    /** The created agent passed its shadow test and was mounted. */
+    "provisioner:approved": [{ generation: number; spec: NewAgentProvisioning; agent: ActorAgent; summary: CreatedAgentSummary }];
+    /** Declined at the human approval gate or failed its shadow test. */
+    "provisioner:rejected": [{ generation: number; spec: NewAgentProvisioning; summary: CreatedAgentSummary }];
+    /** A periodic sweep, or a scan triggered by `Explorer.ingestIngredient()`. */
+    "explorer:scan": [{ generation: number; trigger: "sweep" | "ingredient"; hypotheses: ConvergenceHypothesis[] }];
+    /** Every priced LLM call, with the run's running totals. */
+    "cost:update": [CostRecord & { totalCostUsd: number; totalTokens: number }];
+}
+
+/** A listener for one simulation event. */
+export type SimulationListener<K extends keyof SimulationEvents> = (...args: SimulationEvents[K]) => void;
+
+export class SimulationEventBus extends EventEmitter<SimulationEvents> {
+    /**
+     * Add a listener for one event.
+     * @returns A function that removes the listener again.
+     */
+    subscribe<K extends keyof SimulationEvents>(event: K, listener: SimulationListener<K>): () => void {
+        const untyped = listener as (...args: unknown[]) => void;
+        const emitter: EventEmitter = this;
+        emitter.on(event, untyped);
+        return () => emitter.off(event, untyped);
+    }
+}
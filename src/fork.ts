@@ -0,0 +1,202 @@
+/**
+ * Fork — Branch a recorded episode at any turn for counterfactual analysis.
+ *
+ * Loads an episode from the SQLite system of record, rebuilds its state,
+ * context and created agents as the chosen turn began, applies any overrides
+ * and plays the rest of the episode live with the same meta-agents. The
+ * branch is judged and stored linked to its parent, so the two can be
+ * compared side by side.
+ *
+ * @see docs/agent_design_and_state.md §7 — Forking an Episode
+ */
+import { v4 as uuidv4 } from "uuid";
+import { EnvironmentManager } from "./core/environment.js";
+import { ActorAgent } from "./agents/actor.js";
+import type { Critic } from "./agents/critic.js";
+import type { Capitalizer } from "./agents/capitalizer.js";
+import type { Summarizer } from "./agents/summarizer.js";
+import type { TensionDisruptor, InformationDisruptor } from "./agents/disruptor.js";
+import type { LLMClient } from "./llm/client.js";
+import type { EpisodeRecord, AgentVersion } from "./core/episode.js";
+import type { GenericStateObject } from "./schemas/state.js";
+import type { FrameworkConfig } from "./schemas/config.js";
+import type { SqliteDatabase } from "./memory/sqlite.js";
+import { RunRecorder } from "./memory/recorder.js";
+import { applyModelAssignments } from "./orchestrator.js";
+import type { ModelAssignments } from "./orchestrator.js";
+import { RunCancelledError } from "./errors/index.js";
+import { SimulationEventBus } from "./events.js";
+
+export interface ForkOptions {
+    /** The database the parent episode was recorded in. The branch is stored there too. */
+    database: SqliteDatabase;
+    episodeId: string;
+    /** The turn to branch at: earlier turns come from the record, this one is played live. */
+    turn: number;
+    config: FrameworkConfig;
+    /**
+     * The primary actors of the parent episode, keyed by ID. Created agents are
+     * rebuilt from their recorded specs. Each plays with the strategy and
+     * hyperparameters it had in the parent episode.
+     */
+    agents: Record<string, ActorAgent>;
+    judge: Critic;
+    /** The client created agents play with, as in runFullSimulation(). */
+    llmClient: LLMClient;
+    /**
+     * The run's meta-agents. Pass the same ones as the parent's run so the
+     * branch plays with the same interjections, summaries and disruptions.
+     * Like the orchestrator, only epoch episodes play with them.
+     */
+    capitalizer?: Capitalizer;
+    summarizer?: Summarizer;
+    tensionDisruptor?: TensionDisruptor;
+    infoDisruptor?: InformationDisruptor;
+    /**
+     * Per-agent models, as given to runFullSimulation(). Pass the parent run's
+     * assignments so the branch plays on the same models.
+     */
+    modelAssignments?: ModelAssignments;
+    /** Values to set as the branch begins, keyed by dot path within `variables`. */
+    variables?: Record<string, unknown>;
+    /** Strategies to swap in for the branch, keyed by agent ID. */
+    strategies?: Record<string, string>;
+    /** Bus the branch's episode and turn events are emitted on, with kind "fork". */
+    events?: SimulationEventBus;
+    /** Cancels the branch. A cancelled branch is neither judged nor stored. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Branch a recorded episode at `turn` and play it out live.
+ * @returns The judged branch, with `parentEpisodeId` and `forkTurn` set.
+ * @throws Error if the episode or the turn is unknown, or an agent is missing.
+ * @throws InvalidStateError if a variable override cannot apply.
+ */
+export async function forkEpisode(options: ForkOptions): Promise<EpisodeRecord> {
+    const { database, episodeId, turn, config, judge, signal } = options;
+    const events = options.events ?? new SimulationEventBus();
+
+    const parent = database.getEpisode(episodeId);
+    if (!parent) throw new Error(`Unknown episode: ${episodeId}`);
+    if (!Number.isInteger(turn) || turn < 0 || turn >= parent.turnCount) {
+        throw new Error(`Episode ${episodeId} has no turn ${turn}; it played turns 0 to ${parent.turnCount - 1}`);
+    }
+    const missing = parent.turnOrder.filter((agentId) => !options.agents[agentId] && !parent.createdAgents[agentId]);
+    if (missing.length > 0) throw new Error(`No agent given for ${missing.join(", ")}`);
+    const unknown = Object.keys(options.strategies ?? {}).filter((agentId) => !parent.turnOrder.includes(agentId));
+    if (unknown.length > 0) throw new Error(`${unknown.join(", ")} did not play episode ${episodeId}`);
+
+    const given = applyModelAssignments(options.llmClient, options.agents, {
+        judge,
+        capitalizer: options.capitalizer,
+        summarizer: options.summarizer,
+        info_disruptor: options.infoDisruptor,
+        tension_disruptor: options.tensionDisruptor,
+    }, options.modelAssignments);
+
+    // Replay the parent's versions, swapping in any new strategies
+    const agents: Record<string, ActorAgent> = {};
+    const agentVersions: Record<string, AgentVersion> = {};
+    for (const agentId of new Set(parent.turnOrder)) {
+        const played = parent.agentVersions[agentId];
+        const strategy = options.strategies?.[agentId] ?? played?.strategy;
+        const spec = parent.createdAgents[agentId];
+        // Created agents start with no mutable layer, as mountAgent() built them
+        const agent = given[agentId] ?? new ActorAgent({
+            archetypeId: agentId,
+            immutableCore: spec.system_prompt,
+            mutableStrategy: "",
+            llmClient: options.llmClient,
+        });
+        agents[agentId] = strategy === undefined ? agent : agent.withMutatedStrategy(strategy, played?.hyperparameters);
+        agentVersions[agentId] = { strategy: agents[agentId].mutableStrategy, hyperparameters: agents[agentId].hyperparameters };
+    }
+
+    // fromEpisode() binds the created agents' permissions
+    const env = EnvironmentManager.fromEpisode(parent, config).fork(turn, options.variables);
+    if (!parent.isShadowTrial) {
+        if (options.capitalizer) env.setCapitalizer(options.capitalizer);
+        if (options.summarizer) env.setSummarizer(options.summarizer);
+        if (options.tensionDisruptor) env.setTensionAgent(options.tensionDisruptor);
+        if (options.infoDisruptor) env.setInfoDisruptor(options.infoDisruptor);
+    }
+    const ref = { episodeId: uuidv4(), generation: parent.generation, kind: "fork" as const };
+
+    env.on("turn:complete", ({ speakerId, proposal, logEntry }) => {
+        events.emit("turn:complete", { ...ref, speakerId, proposal, logEntry });
+    });
+    env.on("turn:penalty", ({ speakerId, retries }) => {
+        events.emit("turn:penalty", { ...ref, speakerId, retries });
+    });
+
+    events.emit("episode:start", ref);
+    const [finalState, transcript] = await env.resumeEpisode(agents, signal);
+
+    const [initial] = parent.stateHistory;
+    const initialState: GenericStateObject = {
+        ...parent.finalState,
+        turn_number: initial.turn,
+        is_terminal: false,
+        variables: structuredClone(initial.variables),
+        injections: undefined,
+    };
+    let evaluation: Awaited<ReturnType<Critic["evaluate"]>> = { scores: {}, rationales: {} };
+    let terminationReason = env.terminationReason;
+    if (terminationReason !== "cancelled") {
+        try {
+            evaluation = await judge.evaluate(initialState, finalState, transcript, signal);
+        } catch (err) {
+            if (!(err instanceof RunCancelledError)) throw err;
+            terminationReason = "cancelled";
+        }
+    }
+
+    const record: EpisodeRecord = {
+        id: ref.episodeId,
+        generation: parent.generation,
+        finalState,
+        scores: evaluation.scores,
+        rationales: evaluation.rationales,
+        terminationReason,
+        transcript: [...env.transcript],
+        stateHistory: env.stateHistory,
+        tokenUsage: env.tokenUsage,
+        turnCount: finalState.turn_number,
+        agentVersions,
+        turnOrder: [...env.turnOrder],
+        createdAgents: parent.createdAgents,
+        summaries: [...env.summaries],
+        penalties: [...env.penalties],
+        parentEpisodeId: parent.id,
+        forkTurn: turn,
+    };
+
+    if (terminationReason !== "cancelled") {
+        // Stored in the parent's generation, next to the episode it branched from
+        const recorder = new RunRecorder(database);
+        recorder.continueFrom(parent.generationId);
+        const primaryActorIds = Object.keys(agents).filter((agentId) => !parent.createdAgents[agentId]);
+        // Unchanged agents reuse the parent's profiles; swapped strategies get new ones
+        recorder.syncProfiles(agents, primaryActorIds, "human");
+        recorder.recordEpisode({
+            id: record.id,
+            primaryActorIds,
+            finalState,
+            scores: record.scores,
+            terminationReason,
+            actionLogs: record.transcript,
+            stateHistory: record.stateHistory,
+            generation: record.generation,
+            turnOrder: record.turnOrder,
+            agentVersions,
+            createdAgents: record.createdAgents,
+            summaries: record.summaries,
+            penalties: record.penalties,
+            parentEpisodeId: parent.id,
+            forkTurn: turn,
+        });
+    }
+    events.emit("episode:complete", { ...ref, record });
+    return record;
+}
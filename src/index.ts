@@ -8,7 +8,11 @@
 
 // Core
 export { EnvironmentManager } from "./core/index.js";
-export { buildTriageContext, classifyStateFields, pruneMonologues } from "./core/index.js";
+export { buildTriageContext, classifyStateFields, pruneMonologues, collapseColdFields } from "./core/index.js";
+export { buildBudgetedContext, approximateTokenizer } from "./core/index.js";
+export { findStateViolations, diffVariables, variableTimeline } from "./core/index.js";
+export type { Tokenizer, TierTokenUsage, EpisodeRecord, AgentVersion, ContextSummary, Penalty, StateViolation } from "./core/index.js";
+export type { StateSnapshot, StateChange, TimelinePoint } from "./core/index.js";
 
 // Agents
 export {
@@ -16,16 +20,20 @@ export {
     InformationDisruptor,
     TensionDisruptor,
     Capitalizer,
+    Summarizer,
     Critic,
     Mutator,
     Provisioner,
     Explorer,
 } from "./agents/index.js";
+export type { MutatorEvents, ExplorerEvents } from "./agents/index.js";
 
 // Schemas
 export {
     // State
     StateMutation,
+    StateVariableSpec,
+    StateSchema,
     GenericStateObject,
     ConvergenceHypothesisSummary,
     // Actions
@@ -42,25 +50,56 @@ export {
     // Explorer
     Ingredient,
     ConvergenceHypothesis,
+    // Checkpoints
+    SimulationCheckpoint,
     // Config
     FrameworkConfig,
+    ModelPrice,
+    ModelAssignment,
+    MetaAgentRole,
 } from "./schemas/index.js";
 
 // Memory
-export { SqliteDatabase, VectorMemory } from "./memory/index.js";
+export { SqliteDatabase, VectorMemory, LocalVectorStore } from "./memory/index.js";
+export type { VectorStore, VectorMetadata } from "./memory/index.js";
+export { FileCheckpointStore, SqliteCheckpointStore } from "./memory/index.js";
+export type { CheckpointStore } from "./memory/index.js";
 
 // LLM
 export { LLMClient } from "./llm/index.js";
-export { resolveLanguageModel } from "./llm/index.js";
+export { resolveLanguageModel, KEYLESS_PROVIDERS, MockLanguageModel, Cassette, withSeedScope } from "./llm/index.js";
+export { CostTracker, DEFAULT_MODEL_PRICES } from "./llm/index.js";
+export type { RoleCost, CostRecord, CostTrackerOptions, CostTrackerEvents } from "./llm/index.js";
+export type { MockLanguageModelOptions, MockFixture, LLMClientOptions, RetryOptions, CassetteMode, ProviderConnection } from "./llm/index.js";
 
 // Errors
 export {
     EpisodeCorruptedError,
     PermissionViolationError,
+    InvalidStateError,
     MaxAgentsExceededError,
     UnsafeAgentDesignError,
     CostLimitExceededError,
+    RunCostLimitExceededError,
+    CassetteMissError,
+    LLMTransientError,
+    LLMTimeoutError,
+    RunCancelledError,
+    throwIfCancelled,
 } from "./errors/index.js";
 
 // Orchestration
 export { runFullSimulation } from "./orchestrator.js";
+export type {
+    OrchestratorOptions,
+    ModelAssignments,
+    SimulationResult,
+    GenerationSummary,
+    ScoreStats,
+    StrategyRecord,
+    CreatedAgentSummary,
+} from "./orchestrator.js";
+export { forkEpisode } from "./fork.js";
+export type { ForkOptions } from "./fork.js";
+export { SimulationEventBus } from "./events.js";
+export type { SimulationEvents, SimulationListener, EpisodeKind, EpisodeRef, MutationDecision } from "./events.js";
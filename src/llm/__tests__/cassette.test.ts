@@ -0,0 +1,79 @@
+/**
+ * Cassette Tests — Validate record/replay of LLM responses.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { LLMClient } from "../../llm/client.js";
+import { Cassette } from "../../llm/cassette.js";
+import { MockLanguageModel } from "../../llm/mock.js";
+import { ActionProposal } from "../../schemas/actions.js";
+import { CassetteMissError } from "../../errors/index.js";
+
+describe("Cassette", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "sisc-cassette-"));
+        file = path.join(dir, "run.cassette.jsonl");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("replays a recorded run without calling the model", async () => {
+        const recorder = new LLMClient(new MockLanguageModel({ seed: 1 }), { cassette: new Cassette(file, "record") });
+        const first = await recorder.generateObject(ActionProposal, "system", "prompt");
+        const second = await recorder.generateObject(ActionProposal, "system", "prompt");
+        const text = await recorder.generateText("system", "prompt", { temperature: 0.2 });
+
+        // A different seed would produce different responses if the model were called
+        const replayer = new LLMClient(new MockLanguageModel({ seed: 99 }), { cassette: new Cassette(file, "replay") });
+        expect(await replayer.generateObject(ActionProposal, "system", "prompt")).toEqual(first);
+        expect(await replayer.generateObject(ActionProposal, "system", "prompt")).toEqual(second);
+        expect(await replayer.generateText("system", "prompt", { temperature: 0.2 })).toEqual(text);
+    });
+
+    it("throws CassetteMissError when the replay diverges from the recording", async () => {
+        const recorder = new LLMClient(new MockLanguageModel(), { cassette: new Cassette(file, "record") });
+        await recorder.generateText("system", "prompt", { temperature: 0.2 });
+
+        const replayer = new LLMClient(new MockLanguageModel(), { cassette: new Cassette(file, "replay") });
+        await expect(replayer.generateText("system", "prompt", { temperature: 0.9 })).rejects.toThrow(CassetteMissError);
+        await replayer.generateText("system", "prompt", { temperature: 0.2 });
+        await expect(replayer.generateText("system", "prompt", { temperature: 0.2 })).rejects.toThrow(CassetteMissError);
+    });
+
+    it("keys requests by schema as well as prompt", () => {
+        const base = { system: "s", prompt: "p", temperature: 0.7 };
+        expect(Cassette.keyFor({ kind: "object", ...base, schema: ActionProposal }))
+            .not.toBe(Cassette.keyFor({ kind: "text", ...base }));
+        expect(Cassette.keyFor({ kind: "text", ...base })).toBe(Cassette.keyFor({ kind: "text", ...base }));
+    });
+
+    it("keys seeded requests by their seed", () => {
+        const base = { kind: "text" as const, system: "s", prompt: "p", temperature: 0.7 };
+        expect(Cassette.keyFor({ ...base, seed: undefined })).toBe(Cassette.keyFor(base));
+        expect(Cassette.keyFor({ ...base, seed: 1 })).not.toBe(Cassette.keyFor(base));
+        expect(Cassette.keyFor({ ...base, seed: 1 })).not.toBe(Cassette.keyFor({ ...base, seed: 2 }));
+    });
+
+    it("keys requests by model", () => {
+        const base = { kind: "text" as const, system: "s", prompt: "p", temperature: 0.7 };
+        expect(Cassette.keyFor({ ...base, model: undefined })).toBe(Cassette.keyFor(base));
+        expect(Cassette.keyFor({ ...base, model: "openai/gpt-5" })).not.toBe(Cassette.keyFor({ ...base, model: "openai/gpt-5-nano" }));
+    });
+
+    it("serves each model only its own recorded responses", async () => {
+        const recorder = new LLMClient(new MockLanguageModel({ seed: 1 }), { cassette: new Cassette(file, "record") });
+        const text = await recorder.generateText("system", "prompt", { temperature: 0.2 });
+
+        const replayer = new LLMClient(new MockLanguageModel({ seed: 1 }), { cassette: new Cassette(file, "replay") });
+        const replayedJudge = replayer.withModel(new MockLanguageModel({ seed: 2, modelId: "mock-judge" }));
+        await expect(replayedJudge.generateText("system", "prompt", { temperature: 0.2 })).rejects.toThrow(CassetteMissError);
+        expect(await replayer.generateText("system", "prompt", { temperature: 0.2 })).toEqual(text);
+    });
+});
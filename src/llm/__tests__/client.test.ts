@@ -0,0 +1,119 @@
+/**
+ * LLMClient Resilience Tests — Validate retries, timeouts and model fallback.
+ */
+import { describe, it, expect } from "vitest";
+import { APICallError } from "ai";
+import { z } from "zod/v4";
+import { LLMClient } from "../../llm/client.js";
+import { CostTracker } from "../../llm/cost.js";
+import { MockLanguageModel } from "../../llm/mock.js";
+import { LLMTimeoutError, LLMTransientError, RunCancelledError } from "../../errors/index.js";
+
+type CallOptions = Parameters<MockLanguageModel["doGenerate"]>[0];
+
+/** A mock model that fails its first `failures` calls with the given HTTP status. */
+class FlakyModel extends MockLanguageModel {
+    public calls = 0;
+
+    constructor(modelId: string, private failures: number, private statusCode = 503) {
+        super({ modelId, fixtures: [{ response: { answer: modelId } }] });
+    }
+
+    override async doGenerate(options: CallOptions) {
+        this.calls++;
+        if (this.calls <= this.failures) {
+            throw new APICallError({
+                message: `HTTP ${this.statusCode}`,
+                url: "https://example.invalid",
+                requestBodyValues: {},
+                statusCode: this.statusCode,
+            });
+        }
+        return super.doGenerate(options);
+    }
+}
+
+/** A mock model that never answers until its request is aborted. */
+class HangingModel extends MockLanguageModel {
+    override doGenerate(options: CallOptions): ReturnType<MockLanguageModel["doGenerate"]> {
+        return new Promise((_, reject) => {
+            options.abortSignal?.addEventListener("abort", () => reject(options.abortSignal?.reason));
+        });
+    }
+}
+
+const Answer = z.object({ answer: z.string() });
+const fastRetry = { initialDelayMs: 1, maxDelayMs: 2 };
+
+describe("LLMClient resilience", () => {
+    it("retries transient failures until a call succeeds", async () => {
+        const model = new FlakyModel("flaky", 2, 429);
+        const client = new LLMClient(model, { retry: fastRetry });
+
+        const result = await client.generateObject(Answer, "sys", "prompt");
+        expect(result.object.answer).toBe("flaky");
+        expect(model.calls).toBe(3);
+    });
+
+    it("falls back to the next model and bills the model that answered", async () => {
+        const primary = new FlakyModel("primary", Infinity);
+        const fallback = new FlakyModel("fallback", 0);
+        const costTracker = new CostTracker();
+        const client = new LLMClient(primary, { retry: fastRetry, fallbackModels: [fallback], costTracker });
+
+        const result = await client.generateObject(Answer, "sys", "prompt", { role: "judge" });
+        expect(result.object.answer).toBe("fallback");
+        expect(primary.calls).toBe(3);
+        expect([...costTracker.unpricedModels]).toEqual(["mock/fallback"]);
+    });
+
+    it("throws LLMTransientError once every model is exhausted", async () => {
+        const client = new LLMClient(new FlakyModel("a", Infinity), {
+            retry: { ...fastRetry, maxRetries: 1 },
+            fallbackModels: [new FlakyModel("b", Infinity)],
+        });
+
+        const err = await client.generateText("sys", "prompt").catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(LLMTransientError);
+        expect(err).toMatchObject({ models: ["mock/a", "mock/b"], attempts: 4 });
+    });
+
+    it("does not retry non-transient errors", async () => {
+        const model = new FlakyModel("bad-request", 1, 400);
+        const client = new LLMClient(model, { retry: fastRetry, fallbackModels: [new FlakyModel("b", 0)] });
+
+        await expect(client.generateText("sys", "prompt")).rejects.toThrow(APICallError);
+        expect(model.calls).toBe(1);
+    });
+
+    it("aborts slow attempts and reports LLMTimeoutError", async () => {
+        const client = new LLMClient(new HangingModel({ modelId: "slow" }), {
+            retry: { ...fastRetry, maxRetries: 1 },
+            timeoutMs: 20,
+        });
+
+        const err = await client.generateObject(Answer, "sys", "prompt").catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(LLMTimeoutError);
+        expect(err).toMatchObject({ attempts: 2, timeoutMs: 20 });
+    });
+
+    it("aborts an in-flight request when the caller cancels", async () => {
+        const client = new LLMClient(new HangingModel({ modelId: "slow" }), { retry: fastRetry });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 10);
+
+        const err = await client.generateText("sys", "prompt", { abortSignal: controller.signal }).catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(RunCancelledError);
+    });
+
+    it("stops retrying once cancelled during backoff", async () => {
+        const model = new FlakyModel("flaky", Infinity);
+        const client = new LLMClient(model, { retry: { initialDelayMs: 5000, maxDelayMs: 5000, jitter: 0 } });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 10);
+
+        const err = await client.generateText("sys", "prompt", { abortSignal: controller.signal }).catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(RunCancelledError);
+        expect(model.calls).toBe(1);
+    });
+});
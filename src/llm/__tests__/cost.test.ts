@@ -0,0 +1,87 @@
+/**
+ * Cost Tracking Tests — Validate pricing, per-role breakdowns, and the run cap.
+ */
+import { describe, it, expect } from "vitest";
+import { CostTracker, modelKey } from "../../llm/cost.js";
+import { LLMClient } from "../../llm/client.js";
+import { MockLanguageModel } from "../../llm/mock.js";
+import { EnvironmentManager } from "../../core/environment.js";
+import { ActorAgent } from "../../agents/actor.js";
+import { Critic } from "../../agents/critic.js";
+import { FrameworkConfig } from "../../schemas/config.js";
+import { GenericStateObject } from "../../schemas/state.js";
+import { CostLimitExceededError, RunCostLimitExceededError } from "../../errors/index.js";
+
+/** $1 per thousand input tokens, $2 per thousand output tokens. */
+const prices = { "mock/mock-1": { input_per_million_usd: 1000, output_per_million_usd: 2000 } };
+
+describe("CostTracker", () => {
+    it("prices calls by model and breaks costs down per role", () => {
+        const tracker = new CostTracker({ prices });
+        tracker.record({ role: "judge", model: "mock/mock-1", inputTokens: 1000, outputTokens: 500 });
+        tracker.record({ role: "actor:usa", model: "mock/mock-1", inputTokens: 100, outputTokens: 0 });
+        tracker.record({ role: "judge", model: "openai/gpt-5-nano", inputTokens: 1_000_000, outputTokens: 0 });
+
+        expect(tracker.totalCostUsd).toBeCloseTo(2 + 0.1 + 0.05);
+        const breakdown = tracker.breakdown();
+        expect(Object.keys(breakdown)).toEqual(["judge", "actor:usa"]);
+        expect(breakdown.judge).toEqual({ calls: 2, inputTokens: 1_001_000, outputTokens: 500, costUsd: expect.closeTo(2.05) });
+    });
+
+    it("falls back to bare model IDs and tracks unpriced models", () => {
+        const tracker = new CostTracker({ prices: { "custom-model": { input_per_million_usd: 1_000_000, output_per_million_usd: 0 } } });
+        tracker.record({ role: "mutator", model: "ollama/custom-model", inputTokens: 1, outputTokens: 0 });
+        tracker.record({ role: "mutator", model: "acme/unknown", inputTokens: 1000, outputTokens: 1000 });
+        expect(tracker.totalCostUsd).toBe(1);
+        expect([...tracker.unpricedModels]).toEqual(["acme/unknown"]);
+    });
+
+    it("throws RunCostLimitExceededError once the cap is crossed", () => {
+        const tracker = new CostTracker({ prices, maxCostUsd: 1.5 });
+        tracker.record({ role: "judge", model: "mock/mock-1", inputTokens: 1000, outputTokens: 0 });
+        expect(() => tracker.record({ role: "judge", model: "mock/mock-1", inputTokens: 1000, outputTokens: 0 }))
+            .toThrow(RunCostLimitExceededError);
+        expect(() => tracker.assertWithinLimit()).toThrow(RunCostLimitExceededError);
+    });
+
+    it("identifies AI SDK models as provider/model", () => {
+        expect(modelKey(new MockLanguageModel())).toBe("mock/mock-1");
+        expect(modelKey("gpt-5")).toBe("gpt-5");
+    });
+});
+
+describe("LLMClient cost accounting", () => {
+    it("splits input and output tokens and bills the requesting role", async () => {
+        const costTracker = new CostTracker({ prices });
+        const client = new LLMClient(new MockLanguageModel(), { costTracker });
+        const judge = new Critic("rubric", "judge", client);
+        const state = GenericStateObject.parse({ current_speaker_id: "usa", variables: {} });
+
+        await judge.evaluate(state, state, [{ speakerId: "usa" }]);
+        const result = await client.generateText("system", "prompt");
+
+        expect(result.inputTokens).toBeGreaterThan(0);
+        expect(result.outputTokens).toBeGreaterThan(0);
+        expect(result.tokenUsage).toBe(result.inputTokens + result.outputTokens);
+        expect(Object.keys(costTracker.breakdown()).sort()).toEqual(["judge", "unattributed"]);
+    });
+
+    it("ends the run instead of the episode when the cap is exceeded", async () => {
+        const costTracker = new CostTracker({ prices, maxCostUsd: 0.01 });
+        const client = new LLMClient(new MockLanguageModel(), { costTracker });
+        const env = new EnvironmentManager(
+            GenericStateObject.parse({ current_speaker_id: "usa", variables: {} }),
+            FrameworkConfig.parse({ max_turns_per_episode: 50 }),
+        );
+        env.turnOrder = ["usa", "iran"];
+        const agents = {
+            usa: new ActorAgent({ archetypeId: "usa", immutableCore: "core", mutableStrategy: "", llmClient: client }),
+            iran: new ActorAgent({ archetypeId: "iran", immutableCore: "core", mutableStrategy: "", llmClient: client }),
+        };
+
+        const error = await env.runEpisode(agents).catch((err) => err);
+        expect(error).toBeInstanceOf(RunCostLimitExceededError);
+        expect(error).toBeInstanceOf(CostLimitExceededError);
+        expect(error.costLimitUsd).toBe(0.01);
+    });
+});
@@ -0,0 +1,285 @@
+/**
+ * Mock Provider Tests — Validate deterministic, schema-valid offline responses.
+ */
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LLMClient } from "../../llm/client.js";
+import { MockLanguageModel } from "../../llm/mock.js";
+import { resolveLanguageModel } from "../../llm/resolve.js";
+import { withSeedScope } from "../../llm/seed.js";
+import { ActionProposal, JudgeEvaluation } from "../../schemas/actions.js";
+import { MutatorProposal, NewAgentProvisioning, CapitalizerHint } from "../../schemas/meta.js";
+import { FrameworkConfig } from "../../schemas/config.js";
+import { runFullSimulation } from "../../orchestrator.js";
+import { ActorAgent } from "../../agents/actor.js";
+import { Critic } from "../../agents/critic.js";
+import { Mutator } from "../../agents/mutator.js";
+import { Provisioner } from "../../agents/provisioner.js";
+import { SqliteDatabase } from "../../memory/sqlite.js";
+import { LocalVectorStore } from "../../memory/local-vector.js";
+
+describe("MockLanguageModel", () => {
+    it("produces schema-valid framework objects", async () => {
+        const client = new LLMClient(new MockLanguageModel({ seed: 7 }));
+
+        for (const schema of [ActionProposal, MutatorProposal, NewAgentProvisioning, CapitalizerHint]) {
+            const result = await client.generateObject(schema, "system", "{}");
+            expect(() => schema.parse(result.object)).not.toThrow();
+            expect(result.tokenUsage).toBeGreaterThan(0);
+        }
+    });
+
+    it("scores every agent that appears in a judged transcript", async () => {
+        const client = new LLMClient(new MockLanguageModel());
+        const prompt = JSON.stringify({
+            transcript: [
+                { turn: 0, speakerId: "usa" },
+                { turn: 1, speakerId: "iran" },
+                { turn: 2, speakerId: "disruptor_info" },
+            ],
+        });
+
+        const result = await client.generateObject(JudgeEvaluation, "judge", prompt);
+        expect(result.object.individual_evaluations.map((e) => e.agent_id)).toEqual(["usa", "iran"]);
+    });
+
+    it("is deterministic for a given seed", async () => {
+        const run = async (seed: number) => {
+            const client = new LLMClient(new MockLanguageModel({ seed }));
+            const first = await client.generateObject(ActionProposal, "system", "turn");
+            const second = await client.generateObject(ActionProposal, "system", "turn");
+            return [first.object, second.object];
+        };
+
+        const [a1, a2] = await run(1);
+        const [b1, b2] = await run(1);
+        expect(b1).toEqual(a1);
+        expect(b2).toEqual(a2);
+        // Repeated prompts still vary within a run
+        expect(a2).not.toEqual(a1);
+    });
+
+    it("answers seeded requests the same whatever it answered before", async () => {
+        const model = new MockLanguageModel({ seed: 1 });
+        const client = new LLMClient(model);
+        const inScope = () => withSeedScope(5, async () => {
+            const first = await client.generateObject(ActionProposal, "system", "turn");
+            const second = await client.generateObject(ActionProposal, "system", "turn");
+            return [first.object, second.object];
+        });
+
+        const [a1, a2] = await inScope();
+        await client.generateObject(ActionProposal, "system", "turn");
+        const [b1, b2] = await inScope();
+        expect(b1).toEqual(a1);
+        expect(b2).toEqual(a2);
+        expect(a2).not.toEqual(a1);
+    });
+
+    it("serves scripted fixtures for matching prompts", async () => {
+        const fixture = {
+            variants: [{ variant_id: "v1", strategy_text: "Scripted", hyperparameters: { temperature: 0.5, frequency_penalty: 0 } }],
+        };
+        const client = new LLMClient(new MockLanguageModel({
+            fixtures: [
+                { match: "mutation_count", response: fixture },
+                { match: /deadlock/, response: "Scripted analysis" },
+            ],
+        }));
+
+        const object = await client.generateObject(MutatorProposal, "mutator", JSON.stringify({ mutation_count: 1 }));
+        expect(object.object).toEqual(fixture);
+
+        const text = await client.generateText("analyst", "Why the deadlock?");
+        expect(text.text).toBe("Scripted analysis");
+    });
+
+    it("is available through resolveLanguageModel", () => {
+        const model = resolveLanguageModel("mock");
+        expect(model).toBeInstanceOf(MockLanguageModel);
+    });
+
+    it("runs the full simulation loop offline", async () => {
+        const llmClient = new LLMClient(new MockLanguageModel({ seed: 3 }));
+        const config = FrameworkConfig.parse({
+            max_turns_per_episode: 3,
+            epoch_size: 2,
+            shadow_trial_count: 2,
+            mutation_variants: 1,
+            creation_patience: 1,
+            require_human_approval_for_creation: false,
+            scout_sweep_interval_generations: 10,
+        });
+        const agents = {
+            usa: new ActorAgent({ archetypeId: "usa", immutableCore: "You are the US.", mutableStrategy: "", llmClient }),
+            iran: new ActorAgent({ archetypeId: "iran", immutableCore: "You are Iran.", mutableStrategy: "", llmClient }),
+        };
+
+        const generations: number[] = [];
+        const result = await runFullSimulation({
+            config,
+            initialState: { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { global_tension_level: 5 } },
+            agents,
+            judge: new Critic("rubric", "judge", llmClient),
+            mutator: new Mutator("mutator", llmClient),
+            provisioner: new Provisioner("provisioner", llmClient),
+            llmClient,
+            maxGenerations: 2,
+            onGenerationComplete: (generation, episodes) => {
+                generations.push(generation);
+                expect(Object.keys(episodes[0].scores).sort()).toEqual(["iran", "usa"]);
+                expect(episodes[0].generation).toBe(generation);
+                expect(episodes[0].transcript.length).toBeGreaterThan(0);
+                expect(episodes[0].tokenUsage).toBeGreaterThan(0);
+                expect(Object.keys(episodes[0].rationales).sort()).toEqual(["iran", "usa"]);
+                expect(Object.keys(episodes[0].agentVersions).sort()).toEqual(["iran", "usa"]);
+            },
+        });
+
+        expect(generations).toEqual([0, 1]);
+        expect(result.generations.map((g) => g.generation)).toEqual([0, 1]);
+        expect(result.generations[0].episodeCount).toBe(2);
+        expect(Object.keys(result.generations[0].scores).sort()).toEqual(["iran", "usa"]);
+        const stats = result.generations[0].scores.usa;
+        expect(stats.min).toBeLessThanOrEqual(stats.mean);
+        expect(stats.max).toBeGreaterThanOrEqual(stats.mean);
+        expect(Object.values(result.terminationReasons).reduce((a, b) => a + b, 0)).toBe(4);
+        expect(result.strategyHistory.usa[0]).toMatchObject({ generation: null, strategy: "" });
+        expect(result.strategyHistory.usa.at(-1)?.strategy).toBe(result.activeAgents.usa.mutableStrategy);
+        expect(result.totalTokens).toBeGreaterThan(0);
+    });
+
+    it("reproduces a seeded run regardless of concurrency", async () => {
+        const run = async (maxConcurrency: number) => {
+            const llmClient = new LLMClient(new MockLanguageModel());
+            const config = FrameworkConfig.parse({
+                max_turns_per_episode: 3,
+                epoch_size: 3,
+                shadow_trial_count: 2,
+                mutation_variants: 2,
+                max_concurrency: maxConcurrency,
+                scout_sweep_interval_generations: 10,
+                seed: 42,
+            });
+            const agents = {
+                usa: new ActorAgent({ archetypeId: "usa", immutableCore: "You are the US.", mutableStrategy: "", llmClient }),
+                iran: new ActorAgent({ archetypeId: "iran", immutableCore: "You are Iran.", mutableStrategy: "", llmClient }),
+            };
+            const episodes: unknown[] = [];
+            const result = await runFullSimulation({
+                config,
+                initialState: { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { global_tension_level: 5 } },
+                agents,
+                judge: new Critic("rubric", "judge", llmClient),
+                mutator: new Mutator("mutator", llmClient),
+                provisioner: new Provisioner("provisioner", llmClient),
+                llmClient,
+                maxGenerations: 2,
+                runId: "seeded",
+                onGenerationComplete: (_, records) => {
+                    for (const record of records) episodes.push([record.scores, record.transcript]);
+                },
+            });
+            return { result, episodes };
+        };
+
+        const serial = await run(1);
+        const parallel = await run(4);
+        expect(serial.result.seed).toBe(42);
+        expect(parallel.episodes).toEqual(serial.episodes);
+        expect(parallel.result.generations).toEqual(serial.result.generations);
+        expect(parallel.result.strategyHistory).toEqual(serial.result.strategyHistory);
+        expect(parallel.result.totalTokens).toBe(serial.result.totalTokens);
+    });
+
+    it("records a seeded run twice to the same database and vector store", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sisc-seeded-"));
+        const database = new SqliteDatabase(":memory:");
+        const vectorPath = path.join(dir, "vectors.jsonl");
+        const run = async () => {
+            const vectors = new LocalVectorStore(vectorPath);
+            await vectors.init();
+            const llmClient = new LLMClient(new MockLanguageModel());
+            const config = FrameworkConfig.parse({
+                max_turns_per_episode: 2,
+                epoch_size: 2,
+                shadow_trial_count: 1,
+                mutation_variants: 1,
+                scout_sweep_interval_generations: 10,
+                seed: 42,
+            });
+            const agents = {
+                usa: new ActorAgent({ archetypeId: "usa", immutableCore: "You are the US.", mutableStrategy: "", llmClient }),
+                iran: new ActorAgent({ archetypeId: "iran", immutableCore: "You are Iran.", mutableStrategy: "", llmClient }),
+            };
+            await runFullSimulation({
+                config,
+                initialState: { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { global_tension_level: 5 } },
+                agents,
+                judge: new Critic("rubric", "judge", llmClient),
+                mutator: new Mutator("mutator", llmClient, vectors),
+                provisioner: new Provisioner("provisioner", llmClient),
+                llmClient,
+                maxGenerations: 1,
+                database,
+            });
+        };
+        const countEpisodes = () => (database.raw.prepare("SELECT COUNT(*) AS c FROM Episodes").get() as { c: number }).c;
+        const countVectors = () => fs.readFileSync(vectorPath, "utf8").trim().split("\n").length;
+
+        try {
+            await run();
+            const episodes = countEpisodes();
+            const vectors = countVectors();
+            expect(vectors).toBeGreaterThan(0);
+
+            // The second run recalls the first one's outcomes, so it may trial other variants
+            await run();
+            expect(countEpisodes()).toBeGreaterThan(episodes);
+            expect(countVectors()).toBeGreaterThan(vectors);
+        } finally {
+            database.close();
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("gives assigned actors and meta-agent roles their own models", async () => {
+        const llmClient = new LLMClient(new MockLanguageModel({ seed: 5 }));
+        const config = FrameworkConfig.parse({
+            max_turns_per_episode: 2,
+            epoch_size: 1,
+            shadow_trial_count: 1,
+            mutation_variants: 1,
+            scout_sweep_interval_generations: 10,
+        });
+        const agents = {
+            usa: new ActorAgent({ archetypeId: "usa", immutableCore: "You are the US.", mutableStrategy: "", llmClient }),
+            iran: new ActorAgent({ archetypeId: "iran", immutableCore: "You are Iran.", mutableStrategy: "", llmClient }),
+        };
+        const judge = new Critic("rubric", "judge", llmClient);
+        const mutator = new Mutator("mutator", llmClient);
+
+        await runFullSimulation({
+            config,
+            initialState: { turn_number: 0, current_speaker_id: "usa", is_terminal: false, variables: { global_tension_level: 5 } },
+            agents,
+            judge,
+            mutator,
+            provisioner: new Provisioner("provisioner", llmClient),
+            llmClient,
+            maxGenerations: 1,
+            modelAssignments: {
+                actors: { iran: { provider: "mock", model: "cheap-actor", temperature: 1.1 } },
+                roles: { judge: { provider: "mock", model: "strong-judge", temperature: 0 }, mutator: { temperature: 0.2 } },
+            },
+        });
+
+        expect([...llmClient.costTracker!.unpricedModels].sort()).toEqual(["mock/cheap-actor", "mock/strong-judge"]);
+        expect(judge.llmClient.temperature).toBe(0);
+        expect(judge.llmClient.costTracker).toBe(llmClient.costTracker);
+        expect(mutator.llmClient.model).toBe(llmClient.model);
+        expect(mutator.llmClient.temperature).toBe(0.2);
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Provider Resolution Tests — Validate local and OpenAI-compatible endpoints.
+ */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { resolveLanguageModel, KEYLESS_PROVIDERS } from "../../llm/resolve.js";
+import { LLMClient } from "../../llm/client.js";
+import { modelKey } from "../../llm/cost.js";
+
+/** Stub fetch with an OpenAI chat completion answering "ok". */
+function stubChatCompletion() {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+        new Response(JSON.stringify({
+            id: "chatcmpl-1",
+            created: 0,
+            model: "stub",
+            choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+            usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+        }), { headers: { "Content-Type": "application/json" } }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+}
+
+describe("resolveLanguageModel", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+    });
+
+    it("treats local providers as keyless", () => {
+        expect(KEYLESS_PROVIDERS).toEqual(expect.arrayContaining(["ollama", "openai-compatible"]));
+    });
+
+    it("sends ollama requests to the local chat completions endpoint", async () => {
+        vi.stubEnv("OLLAMA_BASE_URL", "");
+        vi.stubEnv("SISC_BASE_URL", "");
+        const fetchMock = stubChatCompletion();
+        const model = resolveLanguageModel("ollama", "llama3.2");
+        expect(modelKey(model)).toBe("ollama/llama3.2");
+
+        const result = await new LLMClient(model).generateText("sys", "hello");
+        expect(result.text).toBe("ok");
+        expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:11434/v1/chat/completions");
+    });
+
+    it("uses the configured base URL and headers for openai-compatible servers", async () => {
+        const fetchMock = stubChatCompletion();
+        const model = resolveLanguageModel("openai-compatible", "qwen", {
+            baseURL: "http://gpu-box:8000/v1",
+            headers: { "X-Team": "negotiations" },
+        });
+
+        await new LLMClient(model).generateText("sys", "hello");
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe("http://gpu-box:8000/v1/chat/completions");
+        expect(new Headers(init?.headers).get("x-team")).toBe("negotiations");
+    });
+
+    it("only sends self-hosted providers to SISC_BASE_URL", async () => {
+        vi.stubEnv("SISC_BASE_URL", "http://gpu-box:8000/v1");
+        vi.stubEnv("OPENAI_API_KEY", "sk-test");
+        const fetchMock = stubChatCompletion();
+
+        await new LLMClient(resolveLanguageModel("openai-compatible", "qwen")).generateText("sys", "hello");
+        await new LLMClient(resolveLanguageModel("ollama", "llama3.2")).generateText("sys", "hello");
+        // Only the request URL matters here; the stub is not a Responses API reply
+        await new LLMClient(resolveLanguageModel("openai", "gpt-5-nano"), { retry: { maxRetries: 0 } })
+            .generateText("sys", "hello")
+            .catch(() => undefined);
+
+        const urls = fetchMock.mock.calls.map(([url]) => String(url));
+        expect(urls[0]).toBe("http://gpu-box:8000/v1/chat/completions");
+        expect(urls[1]).toBe("http://gpu-box:8000/v1/chat/completions");
+        expect(urls[2]).toMatch(/^https:\/\/api\.openai\.com\//);
+    });
+
+    it("requires a base URL and model for openai-compatible", () => {
+        vi.stubEnv("SISC_BASE_URL", "");
+        vi.stubEnv("SISC_MODEL", "");
+        expect(() => resolveLanguageModel("openai-compatible", "qwen")).toThrow("base URL");
+        expect(() => resolveLanguageModel("openai-compatible", undefined, { baseURL: "http://x/v1" })).toThrow("model");
+    });
+});
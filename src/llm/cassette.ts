@@ -0,0 +1,106 @@
+/**
+ * Cassette — Record/replay storage for LLM responses.
+ *
+ * In `record` mode every response (with its token usage) is appended to a
+ * JSONL cassette file. In `replay` mode responses are served from the file and
+ * the model is never called, so a recorded run can be reproduced offline and
+ * for free.
+ *
+ * Requests are keyed by a hash of (kind, system, prompt, schema, temperature),
+ * the requested model and, in seeded runs, the request seed.
+ * Identical requests are answered in the order they were recorded.
+ */
+import fs from "node:fs";
+import { createHash } from "node:crypto";
+import { z } from "zod/v4";
+import type { ZodType } from "zod/v4";
+import { CassetteMissError } from "../errors/index.js";
+
+export type CassetteMode = "record" | "replay";
+
+/** A single recorded LLM interaction. */
+export interface CassetteEntry {
+    key: string;
+    kind: "text" | "object";
+    /** The generated text, or the generated object. */
+    response: unknown;
+    tokenUsage: number;
+    inputTokens?: number;
+    outputTokens?: number;
+}
+
+export class Cassette {
+    public readonly filePath: string;
+    public readonly mode: CassetteMode;
+
+    /** Recorded entries grouped by request key, in recording order. */
+    private entries: Map<string, CassetteEntry[]> = new Map();
+    /** How many entries per key have been replayed so far. */
+    private cursors: Map<string, number> = new Map();
+
+    constructor(filePath: string, mode: CassetteMode) {
+        this.filePath = filePath;
+        this.mode = mode;
+
+        if (mode === "replay") {
+            const content = fs.readFileSync(filePath, "utf-8");
+            for (const line of content.split("\n")) {
+                if (!line.trim()) continue;
+                const entry = JSON.parse(line) as CassetteEntry;
+                const list = this.entries.get(entry.key) ?? [];
+                list.push(entry);
+                this.entries.set(entry.key, list);
+            }
+        } else {
+            // Start a fresh recording
+            fs.writeFileSync(filePath, "");
+        }
+    }
+
+    /**
+     * Compute the cassette key for a request.
+     */
+    static keyFor(request: {
+        kind: "text" | "object";
+        system: string;
+        prompt: string;
+        schema?: ZodType<unknown>;
+        temperature?: number;
+        seed?: number;
+        /** The requested model as `provider/modelId`, so each model replays its own responses. */
+        model?: string;
+    }): string {
+        const payload = JSON.stringify({
+            kind: request.kind,
+            system: request.system,
+            prompt: request.prompt,
+            schema: request.schema ? z.toJSONSchema(request.schema) : null,
+            temperature: request.temperature ?? null,
+            // Unseeded, model-less keys stay identical to those of older cassettes
+            ...(request.seed !== undefined && { seed: request.seed }),
+            ...(request.model !== undefined && { model: request.model }),
+        });
+        return createHash("sha256").update(payload).digest("hex");
+    }
+
+    /**
+     * Serve the next recorded entry for a key.
+     * @throws CassetteMissError if the recording has no entry left for it.
+     */
+    replay(key: string): CassetteEntry {
+        const list = this.entries.get(key) ?? [];
+        const cursor = this.cursors.get(key) ?? 0;
+        const entry = list[cursor];
+        if (!entry) throw new CassetteMissError(key);
+        this.cursors.set(key, cursor + 1);
+        return entry;
+    }
+
+    /**
+     * Append an entry to the cassette file. Appends are synchronous so the file
+     * stays valid even if the process dies mid-run.
+     */
+    record(entry: CassetteEntry): void {
+        fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+    }
+}
@@ -7,11 +7,25 @@
  *  - Token usage tracking
  *
  * This wrapper gives the framework a clean interface without coupling
- * agent classes directly to the AI SDK imports.
+ * agent classes directly to the AI SDK imports. It also owns resilience:
+ * transient failures are retried with exponential backoff and jitter, each
+ * attempt is bounded by a timeout, and an exhausted model falls through to
+ * the next one in the fallback chain. A caller's AbortSignal cancels the
+ * request in flight and any pending retry.
+ *
+ * @see docs/api_and_interfaces.md §2 — Error Handling & Fallbacks
  */
 import type { LanguageModel } from "ai";
-import { generateObject, generateText } from "ai";
+import { APICallError, generateObject, generateText } from "ai";
 import type { ZodType } from "zod/v4";
+import { Cassette } from "./cassette.js";
+import type { CassetteEntry } from "./cassette.js";
+import { modelKey } from "./cost.js";
+import type { CostTracker } from "./cost.js";
+import { createSeededRandom, hashString } from "../core/random.js";
+import type { RandomSource } from "../core/random.js";
+import { nextRequestSeed } from "./seed.js";
+import { LLMTimeoutError, LLMTransientError, RunCancelledError, throwIfCancelled } from "../errors/index.js";
 
 /** Options for an LLM generation request. */
 export interface GenerateOptions {
@@ -19,18 +33,58 @@ export interface GenerateOptions {
     model?: LanguageModel;
     temperature?: number;
     frequencyPenalty?: number;
+    /** Agent role the request is billed to (e.g. "judge", "actor:usa"). Default: "unattributed" */
+    role?: string;
+    /** Cancels the request, including retries. It then throws RunCancelledError. */
+    abortSignal?: AbortSignal;
+}
+
+/** Construction options for an LLMClient. */
+export interface LLMClientOptions {
+    /** Record responses to, or replay them from, a cassette file. */
+    cassette?: Cassette;
+    /** Records the cost of every call and enforces the run's spending cap. */
+    costTracker?: CostTracker;
+    /** Backoff policy for transient failures. */
+    retry?: RetryOptions;
+    /** Abort an attempt after this many milliseconds. Default: 120000 */
+    timeoutMs?: number;
+    /** Models tried in order once the primary model exhausts its retries. */
+    fallbackModels?: LanguageModel[];
+    /** Source of backoff jitter. Default: seeded from the primary model's key. */
+    random?: RandomSource;
+    /** Sampling temperature for every request, overriding the caller's. */
+    temperature?: number;
+}
+
+/** Exponential backoff policy for transient LLM failures. */
+export interface RetryOptions {
+    /** Retries per model after the first attempt. Default: 2 */
+    maxRetries?: number;
+    /** Delay before the first retry. Doubles with each retry. Default: 1000 */
+    initialDelayMs?: number;
+    /** Upper bound on any single delay. Default: 30000 */
+    maxDelayMs?: number;
+    /** Fraction of each delay that is randomized, from 0 to 1. Default: 0.5 */
+    jitter?: number;
 }
 
+const DEFAULT_TIMEOUT_MS = 120_000;
+
 /** Result of a text generation (free-form). */
 export interface TextResult {
     text: string;
     tokenUsage: number;
+    inputTokens: number;
+    outputTokens: number;
 }
 
 /** Result of a structured object generation (Zod-validated). */
 export interface ObjectResult<T> {
     object: T;
     tokenUsage: number;
+    inputTokens: number;
+    outputTokens: number;
 }
 
 /**
@@ -39,9 +93,46 @@ export interface ObjectResult<T> {
  */
 export class LLMClient {
     public readonly model: LanguageModel;
+    public costTracker?: CostTracker;
+    public readonly fallbackModels: LanguageModel[];
+    /** Fixed sampling temperature, if this client overrides its callers. */
+    public readonly temperature?: number;
+    private cassette?: Cassette;
+    private retry: Required<RetryOptions>;
+    private timeoutMs: number;
+    private random: RandomSource;
 
-    constructor(model: LanguageModel) {
+    constructor(model: LanguageModel, options: LLMClientOptions = {}) {
         this.model = model;
+        this.cassette = options.cassette;
+        this.costTracker = options.costTracker;
+        this.fallbackModels = options.fallbackModels ?? [];
+        this.retry = {
+            maxRetries: options.retry?.maxRetries ?? 2,
+            initialDelayMs: options.retry?.initialDelayMs ?? 1000,
+            maxDelayMs: options.retry?.maxDelayMs ?? 30_000,
+            jitter: options.retry?.jitter ?? 0.5,
+        };
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.random = options.random ?? createSeededRandom(hashString(modelKey(model)));
+        this.temperature = options.temperature;
+    }
+
+    /**
+     * Create a client for another model that shares this client's cassette,
+     * cost tracker, retry policy and fallback chain. Used to give each agent
+     * role its own model within one run.
+     */
+    withModel(model: LanguageModel, options: { temperature?: number } = {}): LLMClient {
+        return new LLMClient(model, {
+            cassette: this.cassette,
+            costTracker: this.costTracker,
+            retry: this.retry,
+            timeoutMs: this.timeoutMs,
+            fallbackModels: this.fallbackModels,
+            random: this.random,
+            temperature: options.temperature,
+        });
     }
 
     /**
@@ -52,17 +143,37 @@ export class LLMClient {
         prompt: string,
         options?: GenerateOptions,
     ): Promise<TextResult> {
-        const result = await generateText({
-            model: options?.model ?? this.model,
-            system,
-            prompt,
-            temperature: options?.temperature ?? 0.7,
-            frequencyPenalty: options?.frequencyPenalty ?? 0.0,
-        });
+        throwIfCancelled(options?.abortSignal);
+        this.costTracker?.assertWithinLimit();
+        const temperature = this.temperature ?? options?.temperature;
+        const seed = nextRequestSeed();
+        const key = this.cassette
+            ? Cassette.keyFor({ kind: "text", system, prompt, temperature, seed, model: modelKey(options?.model ?? this.model) })
+            : "";
+        if (this.cassette?.mode === "replay") {
+            const entry = this.cassette.replay(key);
+            return { text: entry.response as string, ...this.account(entry, options) };
+        }
+
+        const { result, model } = await this.withResilience(options, (model, abortSignal) =>
+            generateText({
+                model,
+                system,
+                prompt,
+                temperature: temperature ?? 0.7,
+                frequencyPenalty: options?.frequencyPenalty ?? 0.0,
+                seed,
+                maxRetries: 0,
+                abortSignal,
+            }),
+        );
+
+        const entry: CassetteEntry = { key, kind: "text", response: result.text, ...usageOf(result.usage) };
+        this.cassette?.record(entry);
 
         return {
             text: result.text,
-            tokenUsage: result.usage.totalTokens ?? 0,
+            ...this.account(entry, options, model),
         };
     }
 
@@ -76,18 +187,148 @@ export class LLMClient {
         prompt: string,
         options?: GenerateOptions,
     ): Promise<ObjectResult<T>> {
-        const result = await generateObject({
-            model: options?.model ?? this.model,
-            schema,
-            system,
-            prompt,
-            temperature: options?.temperature ?? 0.7,
-            frequencyPenalty: options?.frequencyPenalty ?? 0.0,
-        });
+        throwIfCancelled(options?.abortSignal);
+        this.costTracker?.assertWithinLimit();
+        const temperature = this.temperature ?? options?.temperature;
+        const seed = nextRequestSeed();
+        const key = this.cassette
+            ? Cassette.keyFor({ kind: "object", system, prompt, schema, temperature, seed, model: modelKey(options?.model ?? this.model) })
+            : "";
+        if (this.cassette?.mode === "replay") {
+            const entry = this.cassette.replay(key);
+            return { object: schema.parse(entry.response), ...this.account(entry, options) };
+        }
+
+        const { result, model } = await this.withResilience(options, (model, abortSignal) =>
+            generateObject({
+                model,
+                schema,
+                system,
+                prompt,
+                temperature: temperature ?? 0.7,
+                frequencyPenalty: options?.frequencyPenalty ?? 0.0,
+                seed,
+                maxRetries: 0,
+                abortSignal,
+            }),
+        );
+
+        const entry: CassetteEntry = { key, kind: "object", response: result.object, ...usageOf(result.usage) };
+        this.cassette?.record(entry);
 
         return {
             object: result.object as T,
-            tokenUsage: result.usage.totalTokens ?? 0,
+            ...this.account(entry, options, model),
         };
     }
+
+    /**
+     * Run a request against the model chain: the requested (or default) model
+     * first, then each fallback. Transient failures are retried with
+     * exponential backoff; any other error is thrown immediately.
+     * @throws RunCancelledError if the caller's signal fired.
+     * @throws LLMTimeoutError if the final attempt timed out.
+     * @throws LLMTransientError if every model exhausted its retries.
+     */
+    private async withResilience<R>(
+        options: GenerateOptions | undefined,
+        call: (model: LanguageModel, abortSignal: AbortSignal) => Promise<R>,
+    ): Promise<{ result: R; model: LanguageModel }> {
+        const cancel = options?.abortSignal;
+        const chain = [options?.model ?? this.model, ...this.fallbackModels];
+        const tried: string[] = [];
+        let attempts = 0;
+        let lastError: unknown;
+        let timedOut = false;
+
+        for (const model of chain) {
+            tried.push(modelKey(model));
+            for (let retry = 0; retry <= this.retry.maxRetries; retry++) {
+                if (retry > 0) await sleep(this.backoffDelay(retry), cancel);
+                attempts++;
+                const timeout = AbortSignal.timeout(this.timeoutMs);
+                const abortSignal = cancel ? AbortSignal.any([cancel, timeout]) : timeout;
+                try {
+                    return { result: await call(model, abortSignal), model };
+                } catch (err) {
+                    throwIfCancelled(cancel);
+                    timedOut = timeout.aborted;
+                    if (!timedOut && !isTransient(err)) throw err;
+                    lastError = err;
+                }
+            }
+        }
+
+        if (timedOut) throw new LLMTimeoutError(tried, attempts, this.timeoutMs);
+        throw new LLMTransientError(tried, attempts, lastError);
+    }
+
+    /** Delay before the nth retry: doubling from initialDelayMs, capped, with jitter. */
+    private backoffDelay(retry: number): number {
+        const base = Math.min(this.retry.maxDelayMs, this.retry.initialDelayMs * 2 ** (retry - 1));
+        return base * (1 - this.retry.jitter * this.random());
+    }
+
+    /**
+     * Bill a call's usage to the requesting role. Replayed calls are billed at
+     * recorded usage so a replay reports the same costs as the original run.
+     */
+    private account(
+        usage: Pick<CassetteEntry, "tokenUsage" | "inputTokens" | "outputTokens">,
+        options?: GenerateOptions,
+        model: LanguageModel = options?.model ?? this.model,
+    ): { tokenUsage: number; inputTokens: number; outputTokens: number } {
+        const inputTokens = usage.inputTokens ?? 0;
+        const outputTokens = usage.outputTokens ?? 0;
+        this.costTracker?.record({
+            role: options?.role ?? "unattributed",
+            model: modelKey(model),
+            inputTokens,
+            outputTokens,
+        });
+        return { tokenUsage: usage.tokenUsage, inputTokens, outputTokens };
+    }
+}
+
+/** Split AI SDK usage into the totals the framework tracks. */
+function usageOf(usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number }) {
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+    return {
+        tokenUsage: usage.totalTokens ?? inputTokens + outputTokens,
+        inputTokens,
+        outputTokens,
+    };
+}
+
+/**
+ * Whether an error is worth retrying: rate limits, server errors and network
+ * failures. Validation and auth errors fail the same way every time.
+ */
+function isTransient(err: unknown): boolean {
+    if (APICallError.isInstance(err)) {
+        const status = err.statusCode;
+        return err.isRetryable || status === 408 || status === 429 || (status !== undefined && status >= 500);
+    }
+    if (!(err instanceof Error)) return false;
+    const code = (err as { code?: unknown }).code ?? (err.cause as { code?: unknown } | undefined)?.code;
+    return (
+        (typeof code === "string" && ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"].includes(code)) ||
+        (err instanceof TypeError && err.message === "fetch failed")
+    );
+}
+
+/** Wait `ms`, rejecting with RunCancelledError as soon as `signal` fires. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RunCancelledError(signal?.reason));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
 }
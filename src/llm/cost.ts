@@ -0,0 +1,144 @@
+/**
+ * Cost Tracking — Dollar accounting and the run-level spending cap.
+ *
+ * Every LLMClient call is recorded against the agent role that made it
+ * (actor, judge, mutator, provisioner, capitalizer, disruptor, ...), priced
+ * from a per-model table, and checked against `max_run_cost_usd`.
+ *
+ * @see docs/safety_and_sandboxing.md §3 — Hard Token Limits
+ */
+import { EventEmitter } from "events";
+import type { LanguageModel } from "ai";
+import type { ModelPrice } from "../schemas/config.js";
+import { RunCostLimitExceededError } from "../errors/index.js";
+
+/**
+ * Default USD prices per million tokens, keyed by `provider/model`.
+ * Override or extend via `FrameworkConfig.model_prices`.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    "openai/gpt-5-nano": { input_per_million_usd: 0.05, output_per_million_usd: 0.4 },
+    "openai/gpt-5-mini": { input_per_million_usd: 0.25, output_per_million_usd: 2 },
+    "openai/gpt-5": { input_per_million_usd: 1.25, output_per_million_usd: 10 },
+    "google/gemini-1.5-pro": { input_per_million_usd: 1.25, output_per_million_usd: 5 },
+    "anthropic/claude-3-5-sonnet-latest": { input_per_million_usd: 3, output_per_million_usd: 15 },
+    "mock/mock-1": { input_per_million_usd: 0, output_per_million_usd: 0 },
+};
+
+const LOCAL_MODEL_PRICE: ModelPrice = { input_per_million_usd: 0, output_per_million_usd: 0 };
+
+/** Accumulated usage for one agent role. */
+export interface RoleCost {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+}
+
+/** A single priced LLM call. */
+export interface CostRecord {
+    role: string;
+    /** `provider/model` key the call was priced under. */
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+}
+
+export interface CostTrackerOptions {
+    /** Price overrides merged over DEFAULT_MODEL_PRICES. */
+    prices?: Record<string, ModelPrice>;
+    /** Spending cap for the whole run. Unset means no cap. */
+    maxCostUsd?: number;
+}
+
+/**
+ * Identify a model as `provider/model`. AI SDK provider IDs carry an API
+ * suffix (e.g. "openai.responses"), which is dropped.
+ */
+export function modelKey(model: LanguageModel): string {
+    if (typeof model === "string") return model;
+    return `${model.provider.split(".")[0]}/${model.modelId}`;
+}
+
+/** Events emitted by the CostTracker. */
+export interface CostTrackerEvents {
+    /** A call was priced. Emitted before the cap is enforced. */
+    record: [CostRecord];
+}
+
+export class CostTracker extends EventEmitter<CostTrackerEvents> {
+    public readonly maxCostUsd?: number;
+    private prices: Record<string, ModelPrice>;
+    private roles: Map<string, RoleCost> = new Map();
+    /** Models seen without a price entry; their calls are counted as $0. */
+    public readonly unpricedModels: Set<string> = new Set();
+    private total: number = 0;
+
+    constructor(options: CostTrackerOptions = {}) {
+        super();
+        this.prices = { ...DEFAULT_MODEL_PRICES, ...options.prices };
+        this.maxCostUsd = options.maxCostUsd;
+    }
+
+    get totalCostUsd(): number {
+        return this.total;
+    }
+
+    get totalTokens(): number {
+        let tokens = 0;
+        for (const role of this.roles.values()) tokens += role.inputTokens + role.outputTokens;
+        return tokens;
+    }
+
+    /**
+     * Throw if the run has already spent its budget. Called before each request
+     * so concurrent callers stop once any of them crosses the cap.
+     * @throws RunCostLimitExceededError
+     */
+    assertWithinLimit(): void {
+        if (this.maxCostUsd !== undefined && this.total > this.maxCostUsd) {
+            throw new RunCostLimitExceededError(this.total, this.maxCostUsd, this.totalTokens);
+        }
+    }
+
+    /**
+     * Price and record a completed call, then enforce the cap.
+     * @throws RunCostLimitExceededError if the call pushed the run over its cap.
+     */
+    record(params: { role: string; model: string; inputTokens: number; outputTokens: number }): CostRecord {
+        const price = this.priceFor(params.model);
+        const costUsd = price
+            ? (params.inputTokens * price.input_per_million_usd + params.outputTokens * price.output_per_million_usd) / 1_000_000
+            : 0;
+        if (!price) this.unpricedModels.add(params.model);
+
+        const role = this.roles.get(params.role) ?? { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+        role.calls++;
+        role.inputTokens += params.inputTokens;
+        role.outputTokens += params.outputTokens;
+        role.costUsd += costUsd;
+        this.roles.set(params.role, role);
+        this.total += costUsd;
+
+        const record = { ...params, costUsd };
+        this.emit("record", record);
+        this.assertWithinLimit();
+        return record;
+    }
+
+    /** Usage and cost per agent role, most expensive first. */
+    breakdown(): Record<string, RoleCost> {
+        const sorted = [...this.roles.entries()].sort((a, b) => b[1].costUsd - a[1].costUsd);
+        return Object.fromEntries(sorted.map(([role, cost]) => [role, { ...cost }]));
+    }
+
+    /**
+     * Look up a price by `provider/model`, falling back to the bare model ID.
+     * Models served by a local Ollama instance are free unless priced explicitly.
+     */
+    private priceFor(model: string): ModelPrice | undefined {
+        return this.prices[model] ?? this.prices[model.split("/").slice(1).join("/")] ??
+            (model.startsWith("ollama/") ? LOCAL_MODEL_PRICE : undefined);
+    }
+}
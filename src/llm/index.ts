@@ -1,3 +1,11 @@
 export { LLMClient } from "./client.js";
-export { resolveLanguageModel } from "./resolve.js";
-export type { GenerateOptions, TextResult, ObjectResult } from "./client.js";
+export { resolveLanguageModel, KEYLESS_PROVIDERS } from "./resolve.js";
+export type { ProviderConnection } from "./resolve.js";
+export { MockLanguageModel } from "./mock.js";
+export { Cassette } from "./cassette.js";
+export { withSeedScope } from "./seed.js";
+export { CostTracker, DEFAULT_MODEL_PRICES, modelKey } from "./cost.js";
+export type { RoleCost, CostRecord, CostTrackerOptions, CostTrackerEvents } from "./cost.js";
+export type { GenerateOptions, TextResult, ObjectResult, LLMClientOptions, RetryOptions } from "./client.js";
+export type { CassetteMode, CassetteEntry } from "./cassette.js";
+export type { MockLanguageModelOptions, MockFixture, MockRequest } from "./mock.js";
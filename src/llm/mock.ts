@@ -0,0 +1,278 @@
+/**
+ * Mock Language Model — A deterministic, offline AI SDK provider.
+ *
+ * Implements the AI SDK `LanguageModel` (v3 specification) so it can be passed
+ * anywhere a hosted model is accepted. Structured requests are answered with
+ * objects generated from the request's JSON schema using a seeded RNG, so every
+ * response passes the framework's Zod validation. Scripted fixtures can
+ * override responses for specific prompts.
+ *
+ * Used by `sisc simulate --provider mock` and by tests that need the full loop
+ * without network access or API keys.
+ */
+import type { JSONSchema7, LanguageModel } from "ai";
+import { createSeededRandom, hashString } from "../core/random.js";
+import type { RandomSource } from "../core/random.js";
+
+type LanguageModelV3 = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type CallOptions = Parameters<LanguageModelV3["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelV3["doGenerate"]>>;
+type StreamResult = Awaited<ReturnType<LanguageModelV3["doStream"]>>;
+type StreamPart = StreamResult["stream"] extends ReadableStream<infer P> ? P : never;
+
+/** The flattened request a fixture is matched against. */
+export interface MockRequest {
+    system: string;
+    prompt: string;
+    /** JSON schema of the expected object, absent for free-form text requests. */
+    schema?: JSONSchema7;
+    /** The request seed, when the caller sent one. */
+    seed?: number;
+}
+
+/** A scripted response for requests whose system or user prompt matches. */
+export interface MockFixture {
+    /** Substring or pattern tested against the system and user prompt. Omit to match every request. */
+    match?: string | RegExp;
+    /** The object or text to return, or a function producing it. */
+    response: unknown | ((request: MockRequest) => unknown);
+}
+
+export interface MockLanguageModelOptions {
+    /** Seed for generated responses. Default: 0 */
+    seed?: number;
+    modelId?: string;
+    /** Scripted responses, checked in order before falling back to generation. */
+    fixtures?: MockFixture[];
+}
+
+const WORDS = [
+    "accord", "leverage", "sanctions", "verification", "timeline", "concession",
+    "deterrence", "framework", "guarantee", "escalation", "relief", "inspection",
+    "proposal", "stability", "trust", "reciprocity", "deadline", "channel",
+];
+
+export class MockLanguageModel implements LanguageModelV3 {
+    readonly specificationVersion = "v3";
+    readonly provider = "mock";
+    readonly modelId: string;
+    readonly supportedUrls: Record<string, RegExp[]> = {};
+
+    private seed: number;
+    private fixtures: MockFixture[];
+    /** How often each distinct prompt has been answered, so repeats still vary. */
+    private callCounts: Map<number, number> = new Map();
+
+    constructor(options: MockLanguageModelOptions = {}) {
+        this.seed = options.seed ?? 0;
+        this.modelId = options.modelId ?? "mock-1";
+        this.fixtures = options.fixtures ?? [];
+    }
+
+    async doGenerate(options: CallOptions): Promise<GenerateResult> {
+        const request = toMockRequest(options);
+        const text = this.respond(request);
+        const inputTokens = estimateTokens(request.system + request.prompt);
+        const outputTokens = estimateTokens(text);
+
+        return {
+            content: [{ type: "text", text }],
+            finishReason: { unified: "stop", raw: "stop" },
+            usage: {
+                inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: 0, cacheWrite: 0 },
+                outputTokens: { total: outputTokens, text: outputTokens, reasoning: 0 },
+            },
+            warnings: [],
+        };
+    }
+
+    async doStream(options: CallOptions): Promise<StreamResult> {
+        const result = await this.doGenerate(options);
+        const text = result.content.map((part) => (part.type === "text" ? part.text : "")).join("");
+        const parts: StreamPart[] = [
+            { type: "stream-start", warnings: [] },
+            { type: "text-start", id: "0" },
+            { type: "text-delta", id: "0", delta: text },
+            { type: "text-end", id: "0" },
+            { type: "finish", finishReason: result.finishReason, usage: result.usage },
+        ];
+
+        return {
+            stream: new ReadableStream<StreamPart>({
+                start(controller) {
+                    for (const part of parts) controller.enqueue(part);
+                    controller.close();
+                },
+            }),
+        };
+    }
+
+    private respond(request: MockRequest): string {
+        const random = this.randomFor(request);
+
+        const fixture = this.fixtures.find((f) => matchesFixture(f, request));
+        if (fixture) {
+            const value = typeof fixture.response === "function"
+                ? (fixture.response as (request: MockRequest) => unknown)(request)
+                : fixture.response;
+            return typeof value === "string" ? value : JSON.stringify(value);
+        }
+
+        if (request.schema) {
+            const agentIds = discoverAgentIds(request.prompt);
+            return JSON.stringify(generateFromSchema(request.schema, random, agentIds));
+        }
+        return sentence(random, 12);
+    }
+
+    /**
+     * Derive the RNG from the seed, the prompt, and either the request seed or how
+     * often that prompt has been seen. Seeded requests get the same response
+     * whatever else the model has answered.
+     */
+    private randomFor(request: MockRequest): RandomSource {
+        const key = hashString(`${request.system}\n${request.prompt}`);
+        if (request.seed !== undefined) {
+            return createSeededRandom(hashString(`${this.seed}:${key}:s${request.seed}`));
+        }
+        const count = this.callCounts.get(key) ?? 0;
+        this.callCounts.set(key, count + 1);
+        return createSeededRandom(hashString(`${this.seed}:${key}:${count}`));
+    }
+}
+
+function toMockRequest(options: CallOptions): MockRequest {
+    const system: string[] = [];
+    const prompt: string[] = [];
+    for (const message of options.prompt) {
+        if (message.role === "system") {
+            system.push(message.content);
+        } else {
+            for (const part of message.content) {
+                if (part.type === "text") prompt.push(part.text);
+            }
+        }
+    }
+
+    const format = options.responseFormat;
+    return {
+        system: system.join("\n"),
+        prompt: prompt.join("\n"),
+        schema: format?.type === "json" ? format.schema : undefined,
+        seed: options.seed,
+    };
+}
+
+function matchesFixture(fixture: MockFixture, request: MockRequest): boolean {
+    if (fixture.match === undefined) return true;
+    const haystack = `${request.system}\n${request.prompt}`;
+    return typeof fixture.match === "string"
+        ? haystack.includes(fixture.match)
+        : fixture.match.test(haystack);
+}
+
+/**
+ * Collect agent IDs mentioned in a JSON prompt (transcripts, payloads), so
+ * per-agent outputs such as JudgeEvaluation can score the agents that played.
+ */
+function discoverAgentIds(prompt: string): string[] {
+    const ids: string[] = [];
+    const pattern = /"(?:speakerId|current_speaker_id|agent_id)":"([^"]+)"/g;
+    for (const match of prompt.matchAll(pattern)) {
+        const id = match[1];
+        if (!id.startsWith("disruptor_") && !ids.includes(id)) ids.push(id);
+    }
+    return ids;
+}
+
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function sentence(random: RandomSource, wordCount: number): string {
+    const words = Array.from({ length: wordCount }, () => WORDS[Math.floor(random() * WORDS.length)]);
+    return `${words.join(" ")}.`;
+}
+
+/**
+ * Generate a value that satisfies a JSON schema (the subset Zod emits:
+ * objects, arrays, enums, defaults, numeric bounds, unions).
+ */
+function generateFromSchema(
+    definition: JSONSchema7 | boolean,
+    random: RandomSource,
+    agentIds: string[],
+    propertyName?: string,
+): unknown {
+    if (typeof definition === "boolean") return Math.floor(random() * 100);
+    const schema = definition;
+
+    if (schema.const !== undefined) return schema.const;
+    if (schema.enum) return schema.enum[Math.floor(random() * schema.enum.length)];
+    if (schema.default !== undefined) return schema.default;
+
+    const union = schema.anyOf ?? schema.oneOf;
+    if (union) {
+        const option = union.find((o: JSONSchema7 | boolean) => typeof o === "boolean" || o.type !== "null") ?? union[0];
+        return generateFromSchema(option, random, agentIds, propertyName);
+    }
+
+    const type = Array.isArray(schema.type)
+        ? schema.type.find((t: string) => t !== "null")
+        : schema.type;
+
+    switch (type) {
+        case "object": {
+            const result: Record<string, unknown> = {};
+            for (const [key, child] of Object.entries(schema.properties ?? {})) {
+                result[key] = generateFromSchema(child, random, agentIds, key);
+            }
+            // A StateMutation must apply to the state it is proposed against,
+            // which the mock cannot see, so it only adds variables
+            if (schema.properties?.action && schema.properties.path) {
+                result.action = "add";
+                result.path = `${WORDS[Math.floor(random() * WORDS.length)]}.${WORDS[Math.floor(random() * WORDS.length)]}`;
+            }
+            return result;
+        }
+        case "array": {
+            const items = (Array.isArray(schema.items) ? schema.items[0] : schema.items) ?? {};
+            // One entry per agent for per-agent evaluations (e.g. JudgeEvaluation)
+            if (typeof items !== "boolean" && items.properties?.agent_id && agentIds.length > 0) {
+                return agentIds.map((id) => ({
+                    ...(generateFromSchema(items, random, agentIds) as Record<string, unknown>),
+                    agent_id: id,
+                }));
+            }
+            const min = schema.minItems ?? 0;
+            const max = Math.max(min, Math.min(schema.maxItems ?? min + 2, min + 2));
+            const length = min + Math.floor(random() * (max - min + 1));
+            return Array.from({ length }, () => generateFromSchema(items, random, agentIds));
+        }
+        case "integer": {
+            const min = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? Math.floor(schema.exclusiveMinimum) + 1 : 0);
+            const max = schema.maximum ?? (schema.exclusiveMaximum !== undefined ? Math.ceil(schema.exclusiveMaximum) - 1 : min + 10);
+            return min + Math.floor(random() * (max - min + 1));
+        }
+        case "number": {
+            const min = schema.minimum ?? schema.exclusiveMinimum ?? 0;
+            const max = schema.maximum ?? schema.exclusiveMaximum ?? min + 1;
+            // Stay strictly inside the range so exclusive bounds hold
+            const value = min + (0.1 + 0.8 * random()) * (max - min);
+            return Math.round(value * 1000) / 1000;
+        }
+        case "boolean":
+            return random() < 0.5;
+        case "string": {
+            if (propertyName?.endsWith("_id")) {
+                return `${propertyName.slice(0, -3)}_${Math.floor(random() * 1e6).toString(36)}`;
+            }
+            const text = sentence(random, 4 + Math.floor(random() * 6));
+            return text.padEnd(schema.minLength ?? 0, ".");
+        }
+        case "null":
+            return null;
+        default:
+            return Math.floor(random() * 100);
+    }
+}
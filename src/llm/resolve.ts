@@ -1,27 +1,77 @@
-import { openai } from "@ai-sdk/openai";
-import { google } from "@ai-sdk/google";
-import { anthropic } from "@ai-sdk/anthropic";
+import { openai, createOpenAI } from "@ai-sdk/openai";
+import { google, createGoogleGenerativeAI } from "@ai-sdk/google";
+import { anthropic, createAnthropic } from "@ai-sdk/anthropic";
 import type { LanguageModel } from "ai";
+import { MockLanguageModel } from "./mock.js";
+
+/** Providers that need no hosted API key. */
+export const KEYLESS_PROVIDERS = ["mock", "ollama", "openai-compatible"];
+
+/** Providers that read SISC_BASE_URL when no base URL is given. Hosted providers never do. */
+const SELF_HOSTED_PROVIDERS = ["ollama", "openai-compatible"];
+
+/** Ollama's OpenAI-compatible endpoint on its default port. */
+const OLLAMA_BASE_URL = "http://localhost:11434/v1";
+
+/** Connection settings for a provider endpoint. */
+export interface ProviderConnection {
+    /** Endpoint to send requests to. `ollama` and `openai-compatible` fall back to SISC_BASE_URL. */
+    baseURL?: string;
+    /** Extra HTTP headers sent with every request (e.g. a gateway token). */
+    headers?: Record<string, string>;
+}
 
 /**
  * Resolves a LanguageModel based on provider and model names.
- * Falls back to SISC_PROVIDER and SISC_MODEL environment variables.
+ * Falls back to SISC_PROVIDER and SISC_MODEL environment variables, and for
+ * self-hosted providers to SISC_BASE_URL.
  * Defaults to OpenAI gpt-5-nano if nothing is specified.
+ *
+ * `ollama` and `openai-compatible` speak the OpenAI chat completions API to a
+ * local or self-hosted server. `openai-compatible` requires a base URL and a
+ * model, and reads an optional key from OPENAI_COMPATIBLE_API_KEY.
  */
 export function resolveLanguageModel(
     providerName?: string,
-    modelId?: string
+    modelId?: string,
+    connection: ProviderConnection = {},
 ): LanguageModel {
     const provider = providerName || process.env.SISC_PROVIDER || "openai";
     const model = modelId || process.env.SISC_MODEL;
+    const baseURL = connection.baseURL
+        || (SELF_HOSTED_PROVIDERS.includes(provider.toLowerCase()) ? process.env.SISC_BASE_URL : undefined);
+    const { headers } = connection;
+    const custom = baseURL !== undefined || headers !== undefined;
 
     switch (provider.toLowerCase()) {
         case "openai":
-            return openai(model || "gpt-5-nano");
+            return (custom ? createOpenAI({ baseURL, headers }) : openai)(model || "gpt-5-nano");
         case "google":
-            return google(model || "gemini-1.5-pro");
+            return (custom ? createGoogleGenerativeAI({ baseURL, headers }) : google)(model || "gemini-1.5-pro");
         case "anthropic":
-            return anthropic(model || "claude-3-5-sonnet-latest");
+            return (custom ? createAnthropic({ baseURL, headers }) : anthropic)(model || "claude-3-5-sonnet-latest");
+        case "ollama":
+            return createOpenAI({
+                name: "ollama",
+                baseURL: baseURL || process.env.OLLAMA_BASE_URL || OLLAMA_BASE_URL,
+                apiKey: "ollama",
+                headers,
+            }).chat(model || "llama3.2");
+        case "openai-compatible":
+            if (!baseURL) {
+                throw new Error("The openai-compatible provider requires a base URL (runtime.base_url or SISC_BASE_URL).");
+            }
+            if (!model) {
+                throw new Error("The openai-compatible provider requires a model (runtime.model or SISC_MODEL).");
+            }
+            return createOpenAI({
+                name: "openai-compatible",
+                baseURL,
+                apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? "",
+                headers,
+            }).chat(model);
+        case "mock":
+            return new MockLanguageModel({ modelId: model || "mock-1" });
         default:
             throw new Error(`Unsupported LLM provider: ${provider}`);
     }
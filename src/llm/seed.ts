@@ -0,0 +1,35 @@
+/**
+ * Seed Scopes — Reproducible request seeds under concurrency.
+ *
+ * Concurrent episodes often send identical prompts (every episode opens from
+ * the same state), so a seed derived from the prompt cannot tell them apart
+ * and the response each one gets depends on which request arrives first.
+ * The orchestrator instead runs every episode and meta-agent phase in its own
+ * seed scope. Each LLMClient request draws the next seed of its scope, so the
+ * seeds depend only on the run seed and on the order of calls within the
+ * scope, which is sequential. They never depend on how scopes interleave.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import { hashString } from "../core/random.js";
+
+interface SeedScope {
+    seed: number;
+    calls: number;
+}
+
+const scopes = new AsyncLocalStorage<SeedScope>();
+
+/**
+ * Run `fn` in a new seed scope. Requests made from `fn` (across awaits) get
+ * seeds derived from `seed`. A nested scope replaces the outer one.
+ */
+export function withSeedScope<T>(seed: number, fn: () => Promise<T>): Promise<T> {
+    return scopes.run({ seed, calls: 0 }, fn);
+}
+
+/** The seed for the next request in the current scope, or undefined outside any scope. */
+export function nextRequestSeed(): number | undefined {
+    const scope = scopes.getStore();
+    if (!scope) return undefined;
+    return hashString(`${scope.seed}:${scope.calls++}`);
+}
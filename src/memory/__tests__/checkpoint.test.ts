@@ -0,0 +1,156 @@
+/**
+ * Checkpoint Tests — Validate checkpoint stores and orchestrator resume.
+ */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { FileCheckpointStore, SqliteCheckpointStore } from "../../memory/checkpoint.js";
+import { SqliteDatabase } from "../../memory/sqlite.js";
+import { runFullSimulation } from "../../orchestrator.js";
+import { ActorAgent } from "../../agents/actor.js";
+import { Critic } from "../../agents/critic.js";
+import { Mutator } from "../../agents/mutator.js";
+import { Provisioner } from "../../agents/provisioner.js";
+import { FrameworkConfig } from "../../schemas/config.js";
+import type { SimulationCheckpoint } from "../../schemas/checkpoint.js";
+
+const proposal = {
+    internal_monologue: "...",
+    public_dialogue: "...",
+    state_mutations: [],
+    propose_resolution: false,
+    abort_episode: false,
+};
+
+// Restored agents are rebuilt via withMutatedStrategy(), so they call the client directly
+const mockLLMClient = {
+    model: {} as any,
+    generateObject: vi.fn().mockResolvedValue({ object: proposal, tokenUsage: 10 }),
+    generateText: vi.fn(),
+};
+
+function makeCheckpoint(generation: number): SimulationCheckpoint {
+    return {
+        run_id: "run-1",
+        generation,
+        agents: {
+            agent_a: { mutable_strategy: `strategy ${generation}`, hyperparameters: { temperature: 0.4 } },
+        },
+        failed_archetypes: ["broker"],
+        plateau_counter: 2,
+        saved_at: new Date().toISOString(),
+    };
+}
+
+function makeAgent(id: string): ActorAgent {
+    return new ActorAgent({ archetypeId: id, immutableCore: "core", mutableStrategy: "original", llmClient: mockLLMClient as any });
+}
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+});
+
+describe("FileCheckpointStore", () => {
+    it("round-trips the latest checkpoint", async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "sisc-checkpoints-"));
+        const store = new FileCheckpointStore(tempDir);
+
+        await store.save(makeCheckpoint(0));
+        await store.save(makeCheckpoint(1));
+
+        const loaded = await store.load("run-1");
+        expect(loaded?.generation).toBe(1);
+        expect(loaded?.agents.agent_a.mutable_strategy).toBe("strategy 1");
+        expect(await store.load("missing")).toBeNull();
+    });
+
+    it("rejects run IDs that could escape the checkpoint directory", async () => {
+        const store = new FileCheckpointStore("/tmp/unused");
+        await expect(store.load("../etc/passwd")).rejects.toThrow("Invalid run ID");
+    });
+});
+
+describe("SqliteCheckpointStore", () => {
+    it("loads the newest generation for a run", async () => {
+        const db = new SqliteDatabase(":memory:");
+        const store = new SqliteCheckpointStore(db);
+
+        await store.save(makeCheckpoint(3));
+        await store.save(makeCheckpoint(4));
+
+        const loaded = await store.load("run-1");
+        expect(loaded?.generation).toBe(4);
+        db.close();
+    });
+});
+
+describe("runFullSimulation({ resumeFrom })", () => {
+    it("restores orchestrator state and continues at the next generation", async () => {
+        const db = new SqliteDatabase(":memory:");
+        const store = new SqliteCheckpointStore(db);
+        await store.save(makeCheckpoint(4));
+
+        const config = FrameworkConfig.parse({
+            max_turns_per_episode: 1,
+            epoch_size: 1,
+            creation_patience: 100,
+            scout_sweep_interval_generations: 10,
+        });
+        const judge = new Critic("rubric", "judge", mockLLMClient as any);
+        vi.spyOn(judge, "evaluate").mockResolvedValue({ scores: { agent_a: 0 }, rationales: {} });
+        const mutator = new Mutator("mutator", mockLLMClient as any);
+        const evolve = vi.spyOn(mutator, "evolve").mockImplementation(async () => {
+            mutator.plateauCounter++;
+            return null;
+        });
+        const provisioner = new Provisioner("prov", mockLLMClient as any);
+
+        const generations: number[] = [];
+        await runFullSimulation({
+            config,
+            initialState: { turn_number: 0, current_speaker_id: "agent_a", is_terminal: false, variables: {} },
+            agents: { agent_a: makeAgent("agent_a") },
+            judge,
+            mutator,
+            provisioner,
+            llmClient: mockLLMClient as any,
+            maxGenerations: 6,
+            checkpointStore: store,
+            resumeFrom: "run-1",
+            onGenerationComplete: (generation) => generations.push(generation),
+        });
+
+        expect(generations).toEqual([5]);
+        const restoredAgent = evolve.mock.calls[0][0];
+        expect(restoredAgent.mutableStrategy).toBe("strategy 4");
+        expect(restoredAgent.hyperparameters).toEqual({ temperature: 0.4 });
+
+        const latest = await store.load("run-1");
+        expect(latest?.generation).toBe(5);
+        expect(latest?.plateau_counter).toBe(3);
+        expect(latest?.failed_archetypes).toEqual(["broker"]);
+        db.close();
+    });
+
+    it("fails fast when the checkpoint does not exist", async () => {
+        const db = new SqliteDatabase(":memory:");
+        await expect(
+            runFullSimulation({
+                config: FrameworkConfig.parse({}),
+                initialState: { turn_number: 0, current_speaker_id: "agent_a", is_terminal: false, variables: {} },
+                agents: { agent_a: makeAgent("agent_a") },
+                judge: new Critic("r", "j", mockLLMClient as any),
+                mutator: new Mutator("m", mockLLMClient as any),
+                provisioner: new Provisioner("p", mockLLMClient as any),
+                llmClient: mockLLMClient as any,
+                checkpointStore: new SqliteCheckpointStore(db),
+                resumeFrom: "nope",
+            }),
+        ).rejects.toThrow("No checkpoint found for run: nope");
+        db.close();
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Local Vector Store Tests — Validate offline embedding, filtering, and persistence.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { LocalVectorStore } from "../local-vector.js";
+
+describe("LocalVectorStore", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "sisc-vectors-"));
+        file = path.join(dir, "memory", "vectors.jsonl");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function seed(store: LocalVectorStore): Promise<void> {
+        await store.add({ id: "a", document: "threatened new sanctions on oil exports", metadata: { agent_archetype: "usa", judge_score: -4 } });
+        await store.add({ id: "b", document: "offered phased sanctions relief for inspections", metadata: { agent_archetype: "usa", judge_score: 3 } });
+        await store.add({ id: "c", document: "naval exercise in the strait", metadata: { agent_archetype: "iran", judge_score: -2 } });
+        await store.add({ id: "d", document: "held the status quo", metadata: { agent_archetype: "usa", judge_score: 0 } });
+    }
+
+    it("ranks entries by similarity to the query", async () => {
+        const store = new LocalVectorStore();
+        await store.init();
+        await seed(store);
+
+        const result = await store.query({ queryText: "sanctions on oil", nResults: 2 });
+        expect(result.ids[0]).toEqual(["a", "b"]);
+        expect(result.documents[0][0]).toBe("threatened new sanctions on oil exports");
+    });
+
+    it("applies Chroma-style where filters", async () => {
+        const store = new LocalVectorStore();
+        await store.init();
+        await seed(store);
+
+        const failures = await store.query({
+            queryText: "sanctions",
+            where: { $and: [{ agent_archetype: "usa" }, { judge_score: { $lt: 0 } }] },
+        });
+        expect(failures.ids[0]).toEqual(["a"]);
+
+        const either = await store.query({ queryText: "strait", where: { agent_archetype: { $in: ["iran"] } } });
+        expect(either.metadatas[0]).toEqual([{ agent_archetype: "iran", judge_score: -2 }]);
+    });
+
+    it("persists entries and prunes status-quo outcomes over the soft cap", async () => {
+        const store = new LocalVectorStore(file);
+        await store.init();
+        await seed(store);
+
+        await store.prune(10);
+        expect(await store.count()).toBe(4);
+        await store.prune(3);
+        expect(await store.count()).toBe(3);
+
+        const reloaded = new LocalVectorStore(file);
+        await reloaded.init();
+        expect(await reloaded.count()).toBe(3);
+        const result = await reloaded.query({ queryText: "status quo", nResults: 5 });
+        expect(result.ids[0]).not.toContain("d");
+    });
+
+    it("rejects duplicate IDs and use before init", async () => {
+        const store = new LocalVectorStore();
+        await expect(store.count()).rejects.toThrow("not initialized");
+        await store.init();
+        await store.add({ id: "a", document: "x", metadata: {} });
+        await expect(store.add({ id: "a", document: "y", metadata: {} })).rejects.toThrow("already exists");
+    });
+});
@@ -0,0 +1,238 @@
+/**
+ * Run Recorder Tests — Validate that simulation runs are persisted to SQLite.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { SqliteDatabase } from "../../memory/sqlite.js";
+import { RunRecorder } from "../../memory/recorder.js";
+import { runFullSimulation } from "../../orchestrator.js";
+import { ActorAgent } from "../../agents/actor.js";
+import { Critic } from "../../agents/critic.js";
+import { Mutator } from "../../agents/mutator.js";
+import { Provisioner } from "../../agents/provisioner.js";
+import { FrameworkConfig } from "../../schemas/config.js";
+import { SimulationEventBus } from "../../events.js";
+
+let db: SqliteDatabase;
+
+beforeEach(() => {
+    db = new SqliteDatabase(":memory:");
+});
+
+afterEach(() => {
+    db.close();
+});
+
+const mockLLMClient = {
+    model: {} as any,
+    generateObject: vi.fn(),
+    generateText: vi.fn(),
+};
+
+function makeAgent(id: string): ActorAgent {
+    const agent = new ActorAgent({ archetypeId: id, immutableCore: `core ${id}`, mutableStrategy: "strat", llmClient: mockLLMClient as any });
+    vi.spyOn(agent, "proposeAction").mockResolvedValue({
+        proposal: {
+            internal_monologue: "Thinking...",
+            public_dialogue: "Hello",
+            state_mutations: [],
+            propose_resolution: false,
+            abort_episode: false,
+        },
+        tokenUsage: 42,
+    });
+    return agent;
+}
+
+function count(table: string): number {
+    return (db.raw.prepare(`SELECT COUNT(*) as c FROM ${table}`).get() as { c: number }).c;
+}
+
+describe("runFullSimulation({ database })", () => {
+    it("persists generations, profiles, episodes and action logs", async () => {
+        const config = FrameworkConfig.parse({
+            max_turns_per_episode: 2,
+            epoch_size: 2,
+            shadow_trial_count: 2,
+            mutation_variants: 1,
+            creation_patience: 10,
+            scout_sweep_interval_generations: 10,
+        });
+
+        const judge = new Critic("rubric", "judge", mockLLMClient as any);
+        vi.spyOn(judge, "evaluate").mockResolvedValue({
+            scores: { agent_a: 2, agent_b: -1 },
+            rationales: { agent_a: "x", agent_b: "y" },
+        });
+        const mutator = new Mutator("mutator", mockLLMClient as any);
+        vi.spyOn(mutator, "evolve").mockResolvedValue(null);
+        const provisioner = new Provisioner("prov", mockLLMClient as any);
+
+        await runFullSimulation({
+            config,
+            initialState: { turn_number: 0, current_speaker_id: "agent_a", is_terminal: false, variables: {} },
+            agents: { agent_a: makeAgent("agent_a"), agent_b: makeAgent("agent_b") },
+            judge,
+            mutator,
+            provisioner,
+            llmClient: mockLLMClient as any,
+            maxGenerations: 2,
+            database: db,
+        });
+
+        expect(count("Generations")).toBe(2);
+        // Agents were never mutated, so profiles are written once
+        expect(count("AgentProfiles")).toBe(2);
+        expect(count("Episodes")).toBe(4);
+        expect(count("ActionLogs")).toBe(8);
+
+        const episode = db.raw.prepare("SELECT * FROM Episodes LIMIT 1").get() as {
+            id: string;
+            agent_a_score: number;
+            agent_b_score: number;
+            termination_reason: string;
+            scores: string;
+        };
+        expect(episode.agent_a_score).toBe(2);
+        expect(episode.agent_b_score).toBe(-1);
+        expect(episode.termination_reason).toBe("timeout");
+        expect(JSON.parse(episode.scores)).toEqual({ agent_a: 2, agent_b: -1 });
+        expect(db.getEpisodeStateHistory(episode.id).map((s) => [s.turn, s.speakerId])).toEqual([
+            [0, null], [1, "agent_a"], [2, "agent_b"],
+        ]);
+
+        const log = db.raw.prepare("SELECT * FROM ActionLogs LIMIT 1").get() as { token_usage: number };
+        expect(log.token_usage).toBe(42);
+
+        const statuses = db.raw
+            .prepare("SELECT status FROM Generations ORDER BY rowid")
+            .all() as { status: string }[];
+        expect(statuses.map((s) => s.status)).toEqual(["archived", "active"]);
+    });
+});
+
+describe("RunRecorder", () => {
+    it("writes a mutator profile when an agent is replaced", () => {
+        const recorder = new RunRecorder(db);
+        const agent = makeAgent("agent_a");
+        recorder.beginGeneration();
+        recorder.syncProfiles({ agent_a: agent }, ["agent_a"]);
+        recorder.syncProfiles({ agent_a: agent.withMutatedStrategy("new", { temperature: 0.2 }) }, ["agent_a"]);
+
+        const rows = db.raw
+            .prepare("SELECT created_by, hyperparameters FROM AgentProfiles ORDER BY rowid")
+            .all() as { created_by: string; hyperparameters: string }[];
+        expect(rows.map((r) => r.created_by)).toEqual(["human", "mutator"]);
+        expect(JSON.parse(rows[1].hyperparameters)).toEqual({ temperature: 0.2 });
+    });
+
+    it("reuses stored profiles after continueFrom() and credits changes to the mutator", () => {
+        const first = new RunRecorder(db);
+        const generationId = first.beginGeneration();
+        first.syncProfiles({ agent_a: makeAgent("agent_a"), agent_b: makeAgent("agent_b") }, ["agent_a", "agent_b"]);
+
+        // A resumed run rebuilds its agents from the checkpoint
+        const resumed = new RunRecorder(db);
+        resumed.continueFrom(generationId);
+        resumed.beginGeneration();
+        resumed.syncProfiles({
+            agent_a: makeAgent("agent_a"),
+            agent_b: makeAgent("agent_b").withMutatedStrategy("mutated"),
+        }, ["agent_a", "agent_b"]);
+
+        const rows = db.raw
+            .prepare("SELECT agent_id, created_by FROM AgentProfiles ORDER BY rowid")
+            .all() as { agent_id: string; created_by: string }[];
+        expect(rows).toEqual([
+            { agent_id: "agent_a", created_by: "human" },
+            { agent_id: "agent_b", created_by: "human" },
+            { agent_id: "agent_b", created_by: "mutator" },
+        ]);
+    });
+
+    it("records shadow-trial episodes as shadow trials", () => {
+        const events = new SimulationEventBus();
+        const recorder = new RunRecorder(db);
+        recorder.attach(events, ["agent_a", "agent_b"]);
+        events.emit("generation:start", { generation: 0, activeAgents: { agent_a: makeAgent("agent_a"), agent_b: makeAgent("agent_b") } });
+
+        const record = {
+            id: "trial-1",
+            generation: 0,
+            finalState: { turn_number: 2, current_speaker_id: "agent_a", is_terminal: false, variables: {} },
+            scores: { agent_a: -2, agent_b: 1 },
+            rationales: {},
+            terminationReason: "timeout",
+            transcript: [],
+            stateHistory: [],
+            tokenUsage: 0,
+            turnCount: 2,
+            agentVersions: { agent_a: { strategy: "variant", hyperparameters: {} } },
+            turnOrder: ["agent_a", "agent_b"],
+        };
+        events.emit("episode:complete", { episodeId: "trial-1", generation: 0, kind: "mutation_trial", record });
+
+        const row = db.raw.prepare("SELECT is_shadow_trial FROM Episodes WHERE id = 'trial-1'").get() as { is_shadow_trial: number };
+        expect(row.is_shadow_trial).toBe(1);
+        expect(db.getFailingEpisodes(recorder.currentGenerationId, 1)).toEqual([]);
+    });
+
+    it("stores every transcript entry so getEpisode() returns it unchanged", () => {
+        const recorder = new RunRecorder(db);
+        recorder.beginGeneration();
+        recorder.syncProfiles({ agent_a: makeAgent("agent_a"), agent_b: makeAgent("agent_b") }, ["agent_a", "agent_b"]);
+        const transcript = [
+            {
+                turn: 0,
+                speakerId: "agent_a",
+                internal_monologue: "Thinking...",
+                public_dialogue: "Hello",
+                state_mutations: [{ action: "add", path: "subsidies.farm", value: 10 }],
+                propose_resolution: false,
+                abort_episode: false,
+                token_usage: 42,
+                permission_violations: ["concessions.y"],
+            },
+            { turn: 0, speakerId: "disruptor_info", headline: "Talks leak", severity: "high", inject_into_transcript: true },
+            { turn: 1, speakerId: "broker_01", permission_violations: ["abort_episode"], token_usage: 7 },
+        ];
+        const id = recorder.recordEpisode({
+            primaryActorIds: ["agent_a", "agent_b"],
+            finalState: { turn_number: 2, current_speaker_id: "broker_01", is_terminal: false, variables: {} },
+            scores: {},
+            terminationReason: "timeout",
+            actionLogs: transcript,
+        });
+
+        const stored = db.getEpisode(id)!.transcript;
+        expect(stored[0]).toEqual(transcript[0]);
+        expect(stored[1]).toEqual({ ...transcript[1], token_usage: 0 });
+        expect(stored[2]).toEqual(transcript[2]);
+    });
+
+    it("tracks Provisioner specs through their lifecycle", () => {
+        const recorder = new RunRecorder(db);
+        recorder.beginGeneration();
+        const { createdAgentId } = recorder.recordCreatedAgent({
+            agent_id: "broker_01",
+            archetype: "broker",
+            turn_injection_logic: "speak_every_3_turns",
+            system_prompt: "You are a broker.",
+            core_goals: ["Mediate"],
+            permissions: {
+                can_modify_fields: [],
+                cannot_modify_fields: [],
+                can_abort_episode: false,
+                can_propose_resolution: false,
+                max_state_mutations_per_turn: 1,
+            },
+            design_rationale: "Trust deadlock",
+        });
+        expect(db.getActiveCreatedAgents()).toHaveLength(0);
+
+        recorder.resolveCreatedAgent(createdAgentId, "active", 1.5);
+        const active = db.getActiveCreatedAgents() as { archetype_designed: string; shadow_trial_score_delta: number }[];
+        expect(active).toHaveLength(1);
+        expect(active[0].archetype_designed).toBe("broker");
+        expect(active[0].shadow_trial_score_delta).toBe(1.5);
+    });
+});
@@ -33,7 +33,7 @@ describe("Schema Migrations", () => {
         const version = db.raw
             .prepare("SELECT MAX(version) as v FROM SchemaVersions")
             .get() as { v: number };
-        expect(version.v).toBe(1);
+        expect(version.v).toBe(8);
     });
 });
 
@@ -95,6 +95,28 @@ describe("Insert and Query", () => {
         expect(row.termination_reason).toBe("agreement");
     });
 
+    it("stores an episode's state history", () => {
+        const genId = db.insertGeneration();
+        const profileId = db.insertAgentProfile({ generationId: genId, archetype: "primary_actor", systemPrompt: "A" });
+        const stateHistory = [
+            { turn: 0, speakerId: null, variables: { enrichment_level_percent: 90 } },
+            { turn: 1, speakerId: "iran", variables: { enrichment_level_percent: 55 } },
+        ];
+        const epId = db.insertEpisode({
+            generationId: genId,
+            agentAProfileId: profileId,
+            agentBProfileId: profileId,
+            agentAScore: 0,
+            agentBScore: 0,
+            totalTurns: 1,
+            terminationReason: "timeout",
+            stateHistory,
+        });
+
+        expect(db.getEpisodeStateHistory(epId)).toEqual(stateHistory);
+        expect(db.getEpisodeStateHistory("missing")).toEqual([]);
+    });
+
     it("inserts and retrieves action logs", () => {
         const genId = db.insertGeneration();
         const pA = db.insertAgentProfile({
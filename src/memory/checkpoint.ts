@@ -0,0 +1,85 @@
+/**
+ * Checkpoint Stores — Durable storage for orchestrator checkpoints.
+ *
+ * `runFullSimulation` saves a checkpoint after every completed generation so a
+ * crashed or interrupted run can be resumed with `resumeFrom`. Loaded payloads
+ * are validated with Zod before use.
+ *
+ * @see docs/safety_and_sandboxing.md §2A — Strict Schema Validation
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+import { SimulationCheckpoint } from "../schemas/checkpoint.js";
+import type { SimulationCheckpoint as SimulationCheckpointType } from "../schemas/checkpoint.js";
+import type { SqliteDatabase } from "./sqlite.js";
+
+/** Persistence contract for checkpoints, keyed by run ID. */
+export interface CheckpointStore {
+    save(checkpoint: SimulationCheckpointType): Promise<void>;
+    /** Returns the newest checkpoint for the run, or null if none exists. */
+    load(runId: string): Promise<SimulationCheckpointType | null>;
+}
+
+/**
+ * Stores one JSON file per run (`<directory>/<runId>.json`), overwritten after
+ * each generation. Writes go through a temp file + rename so an interrupted
+ * write never leaves a truncated checkpoint behind.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+    private directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async save(checkpoint: SimulationCheckpointType): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        const target = this.pathFor(checkpoint.run_id);
+        const temp = `${target}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(checkpoint, null, 2));
+        await fs.rename(temp, target);
+    }
+
+    async load(runId: string): Promise<SimulationCheckpointType | null> {
+        const target = this.pathFor(runId);
+        let content: string;
+        try {
+            content = await fs.readFile(target, "utf-8");
+        } catch {
+            return null;
+        }
+        return SimulationCheckpoint.parse(JSON.parse(content));
+    }
+
+    private pathFor(runId: string): string {
+        // Run IDs become file names; refuse anything that could escape the directory
+        if (!/^[\w-]+$/.test(runId)) {
+            throw new Error(`Invalid run ID: ${runId}`);
+        }
+        return path.join(this.directory, `${runId}.json`);
+    }
+}
+
+/**
+ * Stores every generation's checkpoint in the SQLite `Checkpoints` table.
+ */
+export class SqliteCheckpointStore implements CheckpointStore {
+    private db: SqliteDatabase;
+
+    constructor(db: SqliteDatabase) {
+        this.db = db;
+    }
+
+    async save(checkpoint: SimulationCheckpointType): Promise<void> {
+        this.db.insertCheckpoint({
+            runId: checkpoint.run_id,
+            generation: checkpoint.generation,
+            payload: checkpoint,
+        });
+    }
+
+    async load(runId: string): Promise<SimulationCheckpointType | null> {
+        const payload = this.db.getLatestCheckpoint(runId);
+        return payload ? SimulationCheckpoint.parse(payload) : null;
+    }
+}
@@ -1,5 +1,11 @@
 export { SqliteDatabase } from "./sqlite.js";
 export type { Migration } from "./sqlite.js";
 
+export { RunRecorder } from "./recorder.js";
+
+export { FileCheckpointStore, SqliteCheckpointStore } from "./checkpoint.js";
+export type { CheckpointStore } from "./checkpoint.js";
+
 export { VectorMemory } from "./vector.js";
-export type { VectorMetadata } from "./vector.js";
+export { LocalVectorStore } from "./local-vector.js";
+export type { VectorMetadata, VectorQueryResult, VectorStore } from "./vector.js";
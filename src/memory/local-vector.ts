@@ -0,0 +1,234 @@
+/**
+ * Local Vector Store — Serverless semantic memory with a built-in embedding.
+ *
+ * Embeds documents with hashed word n-gram TF-IDF vectors and ranks them by
+ * cosine similarity, so semantic memory works offline with no Chroma server
+ * or embedding API. Entries are appended to a JSONL file (or kept in memory
+ * when no path is given) and re-embedded on load, which keeps the file format
+ * independent of the embedding parameters.
+ *
+ * @see docs/data_and_memory_schemas.md §2 — Vector Semantic Memory
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+import { hashString } from "../core/random.js";
+import type { VectorMetadata, VectorQueryResult, VectorStore } from "./vector.js";
+
+/** Number of hash buckets in an embedding. */
+const DIMENSIONS = 4096;
+
+/** A stored entry: the persisted fields plus its term-frequency vector. */
+interface Entry {
+    id: string;
+    document: string;
+    metadata: VectorMetadata;
+    termFrequencies: Map<number, number>;
+}
+
+export class LocalVectorStore implements VectorStore {
+    private filePath?: string;
+    private entries: Map<string, Entry> | null = null;
+    /** How many entries contain each bucket, for IDF weighting. */
+    private documentFrequencies: Map<number, number> = new Map();
+
+    /**
+     * @param filePath JSONL file to persist entries to. Omit for an in-memory store.
+     */
+    constructor(filePath?: string) {
+        this.filePath = filePath;
+    }
+
+    /** Load persisted entries. Must be called before other methods. */
+    async init(): Promise<void> {
+        this.entries = new Map();
+        this.documentFrequencies = new Map();
+        if (!this.filePath) return;
+
+        let content: string;
+        try {
+            content = await fs.readFile(this.filePath, "utf-8");
+        } catch {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            return;
+        }
+
+        for (const line of content.split("\n")) {
+            if (!line.trim()) continue;
+            const { id, document, metadata } = JSON.parse(line) as Omit<Entry, "termFrequencies">;
+            this.insert(id, document, metadata);
+        }
+    }
+
+    private ensureEntries(): Map<string, Entry> {
+        if (!this.entries) {
+            throw new Error("LocalVectorStore not initialized. Call init() first.");
+        }
+        return this.entries;
+    }
+
+    async add(params: {
+        id: string;
+        document: string;
+        metadata: VectorMetadata;
+    }): Promise<void> {
+        if (this.ensureEntries().has(params.id)) {
+            throw new Error(`Vector entry already exists: ${params.id}`);
+        }
+        this.insert(params.id, params.document, params.metadata);
+        if (this.filePath) {
+            await fs.appendFile(this.filePath, `${JSON.stringify(params)}\n`);
+        }
+    }
+
+    /**
+     * Rank entries matching `where` by cosine similarity to the query text.
+     */
+    async query(params: {
+        queryText: string;
+        nResults?: number;
+        where?: Record<string, unknown>;
+    }): Promise<VectorQueryResult> {
+        const entries = [...this.ensureEntries().values()]
+            .filter((entry) => !params.where || matchesWhere(entry.metadata, params.where));
+
+        const queryVector = this.weigh(embed(params.queryText));
+        const ranked = entries
+            .map((entry) => ({ entry, similarity: cosine(queryVector, this.weigh(entry.termFrequencies)) }))
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, params.nResults ?? 5);
+
+        return {
+            ids: [ranked.map((r) => r.entry.id)],
+            documents: [ranked.map((r) => r.entry.document)],
+            metadatas: [ranked.map((r) => r.entry.metadata as Record<string, unknown>)],
+        };
+    }
+
+    async count(): Promise<number> {
+        return this.ensureEntries().size;
+    }
+
+    /**
+     * Prune entries over the soft cap.
+     * Removes status-quo entries (judge_score == 0) that provide no learning signal.
+     * @see docs/data_and_memory_schemas.md §5 — Retention Policy (Vector Memory)
+     */
+    async prune(softCap: number = 10000): Promise<void> {
+        const entries = this.ensureEntries();
+        if (entries.size <= softCap) return;
+
+        for (const entry of [...entries.values()]) {
+            if (entry.metadata.judge_score === 0) {
+                entries.delete(entry.id);
+                for (const bucket of entry.termFrequencies.keys()) {
+                    this.documentFrequencies.set(bucket, (this.documentFrequencies.get(bucket) ?? 1) - 1);
+                }
+            }
+        }
+
+        if (this.filePath) {
+            const lines = [...entries.values()]
+                .map(({ id, document, metadata }) => `${JSON.stringify({ id, document, metadata })}\n`);
+            const temp = `${this.filePath}.tmp`;
+            await fs.writeFile(temp, lines.join(""));
+            await fs.rename(temp, this.filePath);
+        }
+    }
+
+    private insert(id: string, document: string, metadata: VectorMetadata): void {
+        const termFrequencies = embed(document);
+        this.ensureEntries().set(id, { id, document, metadata, termFrequencies });
+        for (const bucket of termFrequencies.keys()) {
+            this.documentFrequencies.set(bucket, (this.documentFrequencies.get(bucket) ?? 0) + 1);
+        }
+    }
+
+    /** Apply smoothed IDF weights to a term-frequency vector. */
+    private weigh(termFrequencies: Map<number, number>): Map<number, number> {
+        const total = this.ensureEntries().size;
+        const weighted = new Map<number, number>();
+        for (const [bucket, tf] of termFrequencies) {
+            const df = this.documentFrequencies.get(bucket) ?? 0;
+            weighted.set(bucket, tf * (Math.log((1 + total) / (1 + df)) + 1));
+        }
+        return weighted;
+    }
+}
+
+/**
+ * Deterministic embedding: word unigrams and bigrams hashed into a fixed number
+ * of buckets, with sublinear term frequency.
+ */
+function embed(text: string): Map<number, number> {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const counts = new Map<number, number>();
+    const addTerm = (term: string) => {
+        const bucket = hashString(term) % DIMENSIONS;
+        counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+    };
+
+    for (let i = 0; i < words.length; i++) {
+        addTerm(words[i]);
+        if (i > 0) addTerm(`${words[i - 1]} ${words[i]}`);
+    }
+
+    for (const [bucket, count] of counts) {
+        counts.set(bucket, 1 + Math.log(count));
+    }
+    return counts;
+}
+
+function cosine(a: Map<number, number>, b: Map<number, number>): number {
+    let dot = 0;
+    for (const [bucket, value] of a) {
+        dot += value * (b.get(bucket) ?? 0);
+    }
+    const norm = (v: Map<number, number>) => Math.sqrt([...v.values()].reduce((sum, x) => sum + x * x, 0));
+    const denominator = norm(a) * norm(b);
+    return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Evaluate a Chroma-style metadata filter against an entry's metadata.
+ */
+function matchesWhere(metadata: VectorMetadata, where: Record<string, unknown>): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+        if (key === "$and") {
+            return (condition as Record<string, unknown>[]).every((c) => matchesWhere(metadata, c));
+        }
+        if (key === "$or") {
+            return (condition as Record<string, unknown>[]).some((c) => matchesWhere(metadata, c));
+        }
+
+        const value = metadata[key];
+        if (condition === null || typeof condition !== "object") {
+            return value === condition;
+        }
+        return Object.entries(condition as Record<string, unknown>).every(([operator, operand]) =>
+            compare(value, operator, operand),
+        );
+    });
+}
+
+function compare(value: unknown, operator: string, operand: unknown): boolean {
+    switch (operator) {
+        case "$eq":
+            return value === operand;
+        case "$ne":
+            return value !== operand;
+        case "$gt":
+            return typeof value === "number" && value > (operand as number);
+        case "$gte":
+            return typeof value === "number" && value >= (operand as number);
+        case "$lt":
+            return typeof value === "number" && value < (operand as number);
+        case "$lte":
+            return typeof value === "number" && value <= (operand as number);
+        case "$in":
+            return (operand as unknown[]).includes(value);
+        case "$nin":
+            return !(operand as unknown[]).includes(value);
+        default:
+            throw new Error(`Unsupported where operator: ${operator}`);
+    }
+}
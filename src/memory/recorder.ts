@@ -0,0 +1,287 @@
+/**
+ * Run Recorder — Persists a running simulation into the SQLite system of record.
+ *
+ * Keeps track of which AgentProfiles row backs each live agent, so a new
+ * profile is only written when an agent is introduced, mutated, or created.
+ * A resumed run or a fork picks up the profiles already stored.
+ * `attach()` subscribes it to a run's SimulationEventBus.
+ *
+ * @see docs/data_and_memory_schemas.md §1 — Relational Logging (SQLite)
+ */
+import { isDeepStrictEqual } from "util";
+import type { SqliteDatabase } from "./sqlite.js";
+import type { ActorAgent } from "../agents/actor.js";
+import type { ActionLogEntry } from "../agents/capitalizer.js";
+import type { GenericStateObject } from "../schemas/state.js";
+import type { NewAgentProvisioning } from "../schemas/meta.js";
+import type { SimulationEventBus } from "../events.js";
+import type { StateSnapshot } from "../core/state-history.js";
+import type { AgentVersion, ContextSummary, Penalty } from "../core/episode.js";
+
+/** The profile row backing an agent, and what it holds. */
+interface RecordedProfile {
+    profileId: string;
+    /** The agent instance last persisted, unless the profile was loaded from the database. */
+    agent?: ActorAgent;
+    systemPrompt: string;
+    hyperparameters: object;
+}
+
+export class RunRecorder {
+    private db: SqliteDatabase;
+    private generationId: string | null = null;
+    /** Agent ID → the profile row that backs it. */
+    private profiles: Map<string, RecordedProfile> = new Map();
+    /** Agent ID → the CreatedAgents row awaiting its shadow test. */
+    private pendingCreations: Map<string, { createdAgentId: string; profileId: string }> = new Map();
+
+    constructor(db: SqliteDatabase) {
+        this.db = db;
+    }
+
+    /** The generation currently being recorded. */
+    get currentGenerationId(): string {
+        if (!this.generationId) {
+            throw new Error("RunRecorder has no active generation. Call beginGeneration() first.");
+        }
+        return this.generationId;
+    }
+
+    /**
+     * Persist a run as it emits events: generations and profiles on
+     * `generation:start`, epoch and shadow-trial episodes on `episode:complete`,
+     * and Provisioner specs as they are designed, approved or rejected.
+     * @returns A function that detaches the recorder from the bus.
+     */
+    attach(events: SimulationEventBus, primaryActorIds: string[]): () => void {
+        const detachers = [
+            events.subscribe("generation:start", ({ activeAgents }) => {
+                this.beginGeneration();
+                this.syncProfiles(activeAgents, primaryActorIds);
+            }),
+            events.subscribe("episode:complete", ({ kind, record }) => {
+                // forkEpisode() stores its own branches
+                if (kind === "fork") return;
+                this.recordEpisode({
+                    id: record.id,
+                    primaryActorIds,
+                    finalState: record.finalState,
+                    scores: record.scores,
+                    terminationReason: record.terminationReason,
+                    actionLogs: record.transcript,
+                    stateHistory: record.stateHistory,
+                    generation: record.generation,
+                    turnOrder: record.turnOrder,
+                    agentVersions: record.agentVersions,
+                    createdAgents: record.createdAgents,
+                    summaries: record.summaries,
+                    penalties: record.penalties,
+                    // Profile columns hold the agents' lineage; agent_versions holds the variant on trial
+                    isShadowTrial: kind !== "epoch",
+                });
+            }),
+            events.subscribe("provisioner:designed", ({ spec }) => {
+                this.pendingCreations.set(spec.agent_id, this.recordCreatedAgent(spec));
+            }),
+            events.subscribe("provisioner:approved", ({ spec, agent, summary }) => {
+                const created = this.takePendingCreation(spec.agent_id);
+                if (!created) return;
+                this.resolveCreatedAgent(created.createdAgentId, "active", summary.scoreDelta);
+                this.bindProfile(spec.agent_id, agent, created.profileId);
+            }),
+            events.subscribe("provisioner:rejected", ({ spec, summary }) => {
+                const created = this.takePendingCreation(spec.agent_id);
+                if (!created) return;
+                const scoreDelta = summary.status === "declined" ? undefined : summary.scoreDelta;
+                this.resolveCreatedAgent(created.createdAgentId, "terminated", scoreDelta);
+            }),
+        ];
+        return () => {
+            for (const detach of detachers) detach();
+        };
+    }
+
+    /**
+     * Open a new Generations row linked to the previous one, archiving the parent.
+     */
+    beginGeneration(): string {
+        const parentId = this.generationId ?? undefined;
+        if (parentId) this.db.updateGenerationStatus(parentId, "archived");
+        this.generationId = this.db.insertGeneration(parentId);
+        return this.generationId;
+    }
+
+    /**
+     * Continue the generation chain of a resumed run: the next beginGeneration()
+     * will link to (and archive) the given generation. The agents' profiles as
+     * of that generation are loaded, so unchanged agents keep their rows.
+     */
+    continueFrom(generationId: string): void {
+        this.generationId = generationId;
+        this.profiles.clear();
+        for (const profile of this.db.getLatestAgentProfiles(generationId)) {
+            this.profiles.set(profile.agentId, profile);
+        }
+    }
+
+    /**
+     * Write an AgentProfiles row for every agent that is new or has been
+     * replaced (e.g. by `withMutatedStrategy`) since it was last persisted.
+     * @param changedBy Who is credited with a changed agent. Default: "mutator"
+     */
+    syncProfiles(agents: Record<string, ActorAgent>, primaryActorIds: string[], changedBy: string = "mutator"): void {
+        for (const [agentId, agent] of Object.entries(agents)) {
+            const recorded = this.profiles.get(agentId);
+            if (recorded?.agent === agent) continue;
+            if (recorded && matchesProfile(recorded, agent)) {
+                this.profiles.set(agentId, { ...recorded, agent });
+                continue;
+            }
+
+            const isPrimary = primaryActorIds.includes(agentId);
+            const profileId = this.db.insertAgentProfile({
+                generationId: this.currentGenerationId,
+                agentId,
+                archetype: isPrimary ? "primary_actor" : "created_agent",
+                systemPrompt: agent.systemPrompt,
+                hyperparameters: agent.hyperparameters,
+                createdBy: recorded ? changedBy : isPrimary ? "human" : "creator",
+            });
+            this.bindProfile(agentId, agent, profileId);
+        }
+    }
+
+    /**
+     * Persist a judged episode together with its turn-by-turn action logs.
+     * Agent A/B columns hold the first two primary actors; `scores` holds everyone.
+     */
+    recordEpisode(params: {
+        /** Episode ID to store under. Default: a fresh UUID. */
+        id?: string;
+        primaryActorIds: string[];
+        finalState: GenericStateObject;
+        scores: Record<string, number>;
+        terminationReason: string;
+        actionLogs: ActionLogEntry[];
+        /** Per-turn snapshots of the variables, from EpisodeRecord.stateHistory. */
+        stateHistory?: StateSnapshot[];
+        /** What a fork needs to replay the episode; see SqliteDatabase.getEpisode(). */
+        generation?: number;
+        turnOrder?: string[];
+        agentVersions?: Record<string, AgentVersion>;
+        createdAgents?: Record<string, NewAgentProvisioning>;
+        summaries?: ContextSummary[];
+        penalties?: Penalty[];
+        /** For a forked episode, the episode it branched from and the turn it branched at. */
+        parentEpisodeId?: string;
+        forkTurn?: number;
+        isShadowTrial?: boolean;
+    }): string {
+        const agentAId = params.primaryActorIds[0];
+        const agentBId = params.primaryActorIds[1] ?? agentAId;
+
+        const episodeId = this.db.insertEpisode({
+            id: params.id,
+            generationId: this.currentGenerationId,
+            agentAProfileId: this.profileIdFor(agentAId),
+            agentBProfileId: this.profileIdFor(agentBId),
+            agentAScore: params.scores[agentAId] ?? 0,
+            agentBScore: params.scores[agentBId] ?? 0,
+            totalTurns: params.finalState.turn_number,
+            terminationReason: params.terminationReason,
+            finalStateSnapshot: params.finalState,
+            isShadowTrial: params.isShadowTrial,
+            scores: params.scores,
+            stateHistory: params.stateHistory,
+            generation: params.generation,
+            turnOrder: params.turnOrder,
+            agentVersions: params.agentVersions,
+            parentEpisodeId: params.parentEpisodeId,
+            forkTurn: params.forkTurn,
+            createdAgents: params.createdAgents,
+            summaries: params.summaries,
+            penalties: params.penalties,
+        });
+
+        for (const log of params.actionLogs) {
+            const {
+                turn, speakerId, internal_monologue, public_dialogue, state_mutations,
+                propose_resolution, abort_episode, token_usage, permission_violations, ...details
+            } = log;
+            this.db.insertActionLog({
+                episodeId,
+                turnNumber: turn,
+                speakerId,
+                internalMonologue: internal_monologue,
+                publicDialogue: public_dialogue,
+                stateMutations: state_mutations as object[] | undefined,
+                proposeResolution: propose_resolution as boolean | undefined,
+                abortEpisode: abort_episode as boolean | undefined,
+                tokenUsage: token_usage,
+                permissionViolations: permission_violations as string[] | undefined,
+                details,
+            });
+        }
+
+        return episodeId;
+    }
+
+    /**
+     * Persist a Provisioner spec as a pending CreatedAgents row with its own profile.
+     * @see docs/data_and_memory_schemas.md §1 — CreatedAgents Table
+     */
+    recordCreatedAgent(spec: NewAgentProvisioning): { createdAgentId: string; profileId: string } {
+        const profileId = this.db.insertAgentProfile({
+            generationId: this.currentGenerationId,
+            agentId: spec.agent_id,
+            archetype: "created_agent",
+            systemPrompt: spec.system_prompt,
+            createdBy: "creator",
+        });
+        const createdAgentId = this.db.insertCreatedAgent({
+            triggerGenerationId: this.currentGenerationId,
+            agentProfileId: profileId,
+            archetypeDesigned: spec.archetype,
+            designRationale: spec.design_rationale,
+        });
+        return { createdAgentId, profileId };
+    }
+
+    /** Mark a created agent as mounted ("active") or discarded ("terminated"). */
+    resolveCreatedAgent(
+        createdAgentId: string,
+        status: "active" | "terminated",
+        shadowTrialScoreDelta?: number,
+    ): void {
+        this.db.updateCreatedAgent(createdAgentId, { status, shadowTrialScoreDelta });
+    }
+
+    /** Associate a mounted agent with the profile written by recordCreatedAgent(). */
+    bindProfile(agentId: string, agent: ActorAgent, profileId: string): void {
+        this.profiles.set(agentId, { profileId, agent, systemPrompt: agent.systemPrompt, hyperparameters: agent.hyperparameters });
+    }
+
+    private takePendingCreation(agentId: string): { createdAgentId: string; profileId: string } | undefined {
+        const created = this.pendingCreations.get(agentId);
+        this.pendingCreations.delete(agentId);
+        return created;
+    }
+
+    private profileIdFor(agentId: string): string {
+        const recorded = this.profiles.get(agentId);
+        if (!recorded) {
+            throw new Error(`No agent profile recorded for agent: ${agentId}`);
+        }
+        return recorded.profileId;
+    }
+}
+
+/**
+ * Whether an agent plays exactly as a stored profile describes. A created
+ * agent's profile holds its bare prompt; the mounted agent appends its empty
+ * strategy, hence the trailing whitespace is ignored.
+ */
+function matchesProfile(profile: RecordedProfile, agent: ActorAgent): boolean {
+    return profile.systemPrompt.trimEnd() === agent.systemPrompt.trimEnd()
+        && isDeepStrictEqual(profile.hyperparameters, agent.hyperparameters);
+}
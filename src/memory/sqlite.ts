@@ -9,6 +9,10 @@
 import Database from "better-sqlite3";
 import { v4 as uuidv4 } from "uuid";
 import fs from "node:fs";
+import type { StateSnapshot } from "../core/state-history.js";
+import type { EpisodeRecord, AgentVersion, ContextSummary, Penalty } from "../core/episode.js";
+import type { NewAgentProvisioning } from "../schemas/meta.js";
+import type { ActionLogEntry } from "../agents/capitalizer.js";
 
 /** Schema migration definition. */
 export interface Migration {
@@ -114,8 +118,116 @@ CREATE TABLE IF NOT EXISTS episodes_archive AS SELECT * FROM Episodes WHERE 0;
  */
 const MIGRATIONS: Migration[] = [
     { version: 1, description: "Initial schema", up: INITIAL_SCHEMA },
+    {
+        version: 2,
+        description: "Add per-agent scores to Episodes",
+        up: `
+ALTER TABLE Episodes ADD COLUMN scores TEXT NOT NULL DEFAULT '{}';
+ALTER TABLE episodes_archive ADD COLUMN scores TEXT NOT NULL DEFAULT '{}';
+`,
+    },
+    {
+        version: 3,
+        description: "Add Checkpoints table",
+        up: `
+CREATE TABLE IF NOT EXISTS Checkpoints (
+  run_id TEXT NOT NULL,
+  generation INTEGER NOT NULL,
+  payload TEXT NOT NULL,
+  saved_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (run_id, generation)
+);
+`,
+    },
+    {
+        version: 4,
+        description: "Add per-turn state history to Episodes",
+        up: `
+ALTER TABLE Episodes ADD COLUMN state_history TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE episodes_archive ADD COLUMN state_history TEXT NOT NULL DEFAULT '[]';
+`,
+    },
+    {
+        version: 5,
+        description: "Add replay data and fork lineage to Episodes",
+        up: `
+ALTER TABLE Episodes ADD COLUMN generation INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE Episodes ADD COLUMN turn_order TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE Episodes ADD COLUMN agent_versions TEXT NOT NULL DEFAULT '{}';
+ALTER TABLE Episodes ADD COLUMN parent_episode_id TEXT;
+ALTER TABLE Episodes ADD COLUMN fork_turn INTEGER;
+ALTER TABLE episodes_archive ADD COLUMN generation INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE episodes_archive ADD COLUMN turn_order TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE episodes_archive ADD COLUMN agent_versions TEXT NOT NULL DEFAULT '{}';
+ALTER TABLE episodes_archive ADD COLUMN parent_episode_id TEXT;
+ALTER TABLE episodes_archive ADD COLUMN fork_turn INTEGER;
+CREATE INDEX IF NOT EXISTS idx_episodes_parent ON Episodes(parent_episode_id);
+`,
+    },
+    {
+        version: 6,
+        description: "Add permission violations and entry details to ActionLogs",
+        up: `
+ALTER TABLE ActionLogs ADD COLUMN permission_violations TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE ActionLogs ADD COLUMN details TEXT NOT NULL DEFAULT '{}';
+`,
+    },
+    {
+        version: 7,
+        description: "Add agent IDs to AgentProfiles",
+        up: `
+ALTER TABLE AgentProfiles ADD COLUMN agent_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_agentprofiles_agent ON AgentProfiles(agent_id);
+`,
+    },
+    {
+        version: 8,
+        description: "Add created agents, context summaries and penalties to Episodes",
+        up: `
+ALTER TABLE Episodes ADD COLUMN created_agents TEXT NOT NULL DEFAULT '{}';
+ALTER TABLE Episodes ADD COLUMN summaries TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE Episodes ADD COLUMN penalties TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE episodes_archive ADD COLUMN created_agents TEXT NOT NULL DEFAULT '{}';
+ALTER TABLE episodes_archive ADD COLUMN summaries TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE episodes_archive ADD COLUMN penalties TEXT NOT NULL DEFAULT '[]';
+`,
+    },
 ];
 
+/** An `Episodes` row as stored. */
+interface EpisodeRow {
+    id: string;
+    generation_id: string;
+    generation: number;
+    total_turns: number;
+    termination_reason: string;
+    final_state_snapshot: string;
+    is_shadow_trial: number;
+    scores: string;
+    state_history: string;
+    turn_order: string;
+    agent_versions: string;
+    parent_episode_id: string | null;
+    fork_turn: number | null;
+    created_agents: string;
+    summaries: string;
+    penalties: string;
+}
+
+/** An `ActionLogs` row as stored. */
+interface ActionLogRow {
+    turn_number: number;
+    speaker_id: string;
+    internal_monologue: string | null;
+    public_dialogue: string | null;
+    state_mutations: string;
+    propose_resolution: number;
+    abort_episode: number;
+    token_usage: number;
+    permission_violations: string;
+    details: string;
+}
+
 export class SqliteDatabase {
     private db: Database.Database;
     private dbPath: string;
@@ -178,6 +290,8 @@ export class SqliteDatabase {
 
     insertAgentProfile(params: {
         generationId: string;
+        /** The live agent the profile configures. */
+        agentId?: string;
         archetype: string;
         systemPrompt: string;
         hyperparameters?: object;
@@ -187,12 +301,13 @@ export class SqliteDatabase {
         const id = uuidv4();
         this.db
             .prepare(
-                `INSERT INTO AgentProfiles (id, generation_id, archetype, system_prompt, hyperparameters, expected_performance_baseline, created_by)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                `INSERT INTO AgentProfiles (id, generation_id, agent_id, archetype, system_prompt, hyperparameters, expected_performance_baseline, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
             )
             .run(
                 id,
                 params.generationId,
+                params.agentId ?? null,
                 params.archetype,
                 params.systemPrompt,
                 JSON.stringify(params.hyperparameters ?? {}),
@@ -203,6 +318,8 @@ export class SqliteDatabase {
     }
 
     insertEpisode(params: {
+        /** Row ID to use. Default: a fresh UUID. */
+        id?: string;
         generationId: string;
         agentAProfileId: string;
         agentBProfileId: string;
@@ -212,12 +329,27 @@ export class SqliteDatabase {
         terminationReason: string;
         finalStateSnapshot?: object;
         isShadowTrial?: boolean;
+        /** Scores for every agent in the episode, keyed by agent ID. */
+        scores?: Record<string, number>;
+        /** The variables as each turn began. */
+        stateHistory?: StateSnapshot[];
+        /** Generation number within the run. */
+        generation?: number;
+        turnOrder?: string[];
+        agentVersions?: Record<string, AgentVersion>;
+        /** For a forked episode, the episode it branched from and the turn it branched at. */
+        parentEpisodeId?: string;
+        forkTurn?: number;
+        /** Provisioner specs of the created agents that played, keyed by agent ID. */
+        createdAgents?: Record<string, NewAgentProvisioning>;
+        summaries?: ContextSummary[];
+        penalties?: Penalty[];
     }): string {
-        const id = uuidv4();
+        const id = params.id ?? uuidv4();
         this.db
             .prepare(
-                `INSERT INTO Episodes (id, generation_id, agent_a_profile_id, agent_b_profile_id, agent_a_score, agent_b_score, total_turns, termination_reason, final_state_snapshot, is_shadow_trial)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                `INSERT INTO Episodes (id, generation_id, agent_a_profile_id, agent_b_profile_id, agent_a_score, agent_b_score, total_turns, termination_reason, final_state_snapshot, is_shadow_trial, scores, state_history, generation, turn_order, agent_versions, parent_episode_id, fork_turn, created_agents, summaries, penalties)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             )
             .run(
                 id,
@@ -230,6 +362,16 @@ export class SqliteDatabase {
                 params.terminationReason,
                 JSON.stringify(params.finalStateSnapshot ?? {}),
                 params.isShadowTrial ? 1 : 0,
+                JSON.stringify(params.scores ?? {}),
+                JSON.stringify(params.stateHistory ?? []),
+                params.generation ?? 0,
+                JSON.stringify(params.turnOrder ?? []),
+                JSON.stringify(params.agentVersions ?? {}),
+                params.parentEpisodeId ?? null,
+                params.forkTurn ?? null,
+                JSON.stringify(params.createdAgents ?? {}),
+                JSON.stringify(params.summaries ?? []),
+                JSON.stringify(params.penalties ?? []),
             );
         return id;
     }
@@ -244,12 +386,16 @@ export class SqliteDatabase {
         proposeResolution?: boolean;
         abortEpisode?: boolean;
         tokenUsage?: number;
+        /** What a created agent's proposal attempted outside its permissions. */
+        permissionViolations?: string[];
+        /** Fields of the entry without a column of their own, e.g. a disruptor's headline. */
+        details?: Record<string, unknown>;
     }): string {
         const id = uuidv4();
         this.db
             .prepare(
-                `INSERT INTO ActionLogs (id, episode_id, turn_number, speaker_id, internal_monologue, public_dialogue, state_mutations, propose_resolution, abort_episode, token_usage)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                `INSERT INTO ActionLogs (id, episode_id, turn_number, speaker_id, internal_monologue, public_dialogue, state_mutations, propose_resolution, abort_episode, token_usage, permission_violations, details)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             )
             .run(
                 id,
@@ -262,6 +408,8 @@ export class SqliteDatabase {
                 params.proposeResolution ? 1 : 0,
                 params.abortEpisode ? 1 : 0,
                 params.tokenUsage ?? 0,
+                JSON.stringify(params.permissionViolations ?? []),
+                JSON.stringify(params.details ?? {}),
             );
         return id;
     }
@@ -292,6 +440,39 @@ export class SqliteDatabase {
         return id;
     }
 
+    insertCheckpoint(params: {
+        runId: string;
+        generation: number;
+        payload: object;
+    }): void {
+        this.db
+            .prepare(
+                `INSERT OR REPLACE INTO Checkpoints (run_id, generation, payload)
+         VALUES (?, ?, ?)`,
+            )
+            .run(params.runId, params.generation, JSON.stringify(params.payload));
+    }
+
+    // --- Update methods ---
+
+    updateGenerationStatus(generationId: string, status: string): void {
+        this.db
+            .prepare("UPDATE Generations SET status = ? WHERE id = ?")
+            .run(status, generationId);
+    }
+
+    updateCreatedAgent(createdAgentId: string, params: {
+        status: string;
+        shadowTrialScoreDelta?: number;
+    }): void {
+        this.db
+            .prepare(
+                `UPDATE CreatedAgents SET status = ?, shadow_trial_score_delta = COALESCE(?, shadow_trial_score_delta)
+         WHERE id = ?`,
+            )
+            .run(params.status, params.shadowTrialScoreDelta ?? null, createdAgentId);
+    }
+
     // --- Query methods ---
 
     getFailingEpisodes(generationId: string, percentile: number = 0.2): object[] {
@@ -310,6 +491,125 @@ export class SqliteDatabase {
             .all() as object[];
     }
 
+    /** Returns the parsed payload of the newest checkpoint for a run, or null. */
+    getLatestCheckpoint(runId: string): unknown {
+        const row = this.db
+            .prepare("SELECT payload FROM Checkpoints WHERE run_id = ? ORDER BY generation DESC LIMIT 1")
+            .get(runId) as { payload: string } | undefined;
+        return row ? JSON.parse(row.payload) : null;
+    }
+
+    /**
+     * The newest profile of each agent as of a generation, searching it and the
+     * generations before it. Profiles written without an agent ID are skipped.
+     */
+    getLatestAgentProfiles(generationId: string): Array<{
+        agentId: string;
+        profileId: string;
+        systemPrompt: string;
+        hyperparameters: Record<string, unknown>;
+    }> {
+        const rows = this.db
+            .prepare(
+                `WITH RECURSIVE lineage(id) AS (
+           SELECT ?
+           UNION ALL SELECT g.parent_generation_id FROM Generations g JOIN lineage ON g.id = lineage.id
+           WHERE g.parent_generation_id IS NOT NULL
+         )
+         SELECT id, agent_id, system_prompt, hyperparameters FROM AgentProfiles
+         WHERE agent_id IS NOT NULL AND generation_id IN (SELECT id FROM lineage)
+         ORDER BY rowid`,
+            )
+            .all(generationId) as Array<{ id: string; agent_id: string; system_prompt: string; hyperparameters: string }>;
+        const latest = new Map(rows.map((row) => [row.agent_id, row]));
+        return [...latest.values()].map((row) => ({
+            agentId: row.agent_id,
+            profileId: row.id,
+            systemPrompt: row.system_prompt,
+            hyperparameters: JSON.parse(row.hyperparameters),
+        }));
+    }
+
+    /**
+     * The per-turn state snapshots of an episode, live or archived, in turn order.
+     * Empty if the episode is unknown or was recorded without a history.
+     */
+    getEpisodeStateHistory(episodeId: string): StateSnapshot[] {
+        const row = this.findEpisodeRow(episodeId);
+        return row ? JSON.parse(row.state_history) : [];
+    }
+
+    /**
+     * Load a recorded episode, live or archived, with its action logs, e.g. to
+     * fork it. Judge rationales are not stored, so `rationales` is empty, and
+     * the transcript is empty once the action logs have been pruned.
+     */
+    getEpisode(episodeId: string): (EpisodeRecord & { generationId: string; isShadowTrial: boolean }) | null {
+        const row = this.findEpisodeRow(episodeId);
+        if (!row) return null;
+        const logs = this.db
+            .prepare("SELECT * FROM ActionLogs WHERE episode_id = ? ORDER BY turn_number, rowid")
+            .all(episodeId) as ActionLogRow[];
+        const transcript: ActionLogEntry[] = logs.map((log) => {
+            const violations = JSON.parse(log.permission_violations) as string[];
+            return {
+                ...JSON.parse(log.details),
+                turn: log.turn_number,
+                speakerId: log.speaker_id,
+                // Disruptor reports and forfeited turns carry no proposal; the context builders tell them apart
+                ...(log.public_dialogue !== null && {
+                    internal_monologue: log.internal_monologue ?? undefined,
+                    public_dialogue: log.public_dialogue,
+                    state_mutations: JSON.parse(log.state_mutations),
+                    propose_resolution: log.propose_resolution === 1,
+                    abort_episode: log.abort_episode === 1,
+                }),
+                token_usage: log.token_usage,
+                ...(violations.length > 0 && { permission_violations: violations }),
+            };
+        });
+        const summaries = JSON.parse(row.summaries) as ContextSummary[];
+        return {
+            id: row.id,
+            generationId: row.generation_id,
+            isShadowTrial: row.is_shadow_trial === 1,
+            generation: row.generation,
+            finalState: JSON.parse(row.final_state_snapshot),
+            scores: JSON.parse(row.scores),
+            rationales: {},
+            terminationReason: row.termination_reason,
+            transcript,
+            stateHistory: JSON.parse(row.state_history),
+            tokenUsage: [...transcript.map((log) => log.token_usage ?? 0), ...summaries.map((summary) => summary.tokenUsage)]
+                .reduce((total, tokens) => total + tokens, 0),
+            turnCount: row.total_turns,
+            agentVersions: JSON.parse(row.agent_versions),
+            turnOrder: JSON.parse(row.turn_order),
+            createdAgents: JSON.parse(row.created_agents),
+            summaries,
+            penalties: JSON.parse(row.penalties),
+            ...(row.parent_episode_id !== null && { parentEpisodeId: row.parent_episode_id }),
+            ...(row.fork_turn !== null && { forkTurn: row.fork_turn }),
+        };
+    }
+
+    /** The episodes forked from an episode, oldest first. */
+    getEpisodeForks(episodeId: string): Array<{ id: string; forkTurn: number }> {
+        const rows = this.db
+            .prepare("SELECT id, fork_turn FROM Episodes WHERE parent_episode_id = ? ORDER BY created_at, rowid")
+            .all(episodeId) as Array<{ id: string; fork_turn: number }>;
+        return rows.map((row) => ({ id: row.id, forkTurn: row.fork_turn }));
+    }
+
+    private findEpisodeRow(episodeId: string): EpisodeRow | undefined {
+        return this.db
+            .prepare(
+                `SELECT * FROM Episodes WHERE id = ?
+         UNION ALL SELECT * FROM episodes_archive WHERE id = ? LIMIT 1`,
+            )
+            .get(episodeId, episodeId) as EpisodeRow | undefined;
+    }
+
     getGenerationEpisodes(generationId: string): object[] {
         return this.db
             .prepare("SELECT * FROM Episodes WHERE generation_id = ?")
@@ -1,9 +1,9 @@
 /**
  * Vector Memory — Semantic similarity search for the Mutator.
  *
- * Wraps ChromaDB for embedded vector storage.
+ * Defines the pluggable `VectorStore` contract and its ChromaDB implementation.
  * Stores strategy/outcome pairs so the Mutator can query for
- * recurring failure patterns.
+ * recurring failure patterns. See `LocalVectorStore` for a serverless backend.
  *
  * @see docs/data_and_memory_schemas.md §2 — Vector Semantic Memory
  */
@@ -20,7 +20,34 @@ export interface VectorMetadata {
     [key: string]: unknown;
 }
 
-export class VectorMemory {
+/** Query results, one inner array per query text (Chroma's result layout). */
+export interface VectorQueryResult {
+    ids: string[][];
+    documents: (string | null)[][];
+    metadatas: (Record<string, unknown> | null)[][];
+}
+
+/**
+ * Persistence contract for semantic memory. `where` filters use Chroma's
+ * metadata filter syntax (`{ key: value }`, `$eq`, `$ne`, `$gt`, `$gte`,
+ * `$lt`, `$lte`, `$in`, `$nin`, `$and`, `$or`).
+ */
+export interface VectorStore {
+    /** Initialize the backing store. Must be called before other methods. */
+    init(): Promise<void>;
+    add(params: { id: string; document: string; metadata: VectorMetadata }): Promise<void>;
+    query(params: {
+        queryText: string;
+        nResults?: number;
+        where?: Record<string, unknown>;
+    }): Promise<VectorQueryResult>;
+    count(): Promise<number>;
+    /** Remove status-quo entries (judge_score == 0) once the store exceeds `softCap`. */
+    prune(softCap?: number): Promise<void>;
+}
+
+/** ChromaDB-backed store. Requires a running Chroma server. */
+export class VectorMemory implements VectorStore {
     private client: ChromaClient;
     private collection: Collection | null = null;
     private collectionName: string;
@@ -69,11 +96,7 @@ export class VectorMemory {
         queryText: string;
         nResults?: number;
         where?: Record<string, unknown>;
-    }): Promise<{
-        ids: string[][];
-        documents: (string | null)[][];
-        metadatas: (Record<string, unknown> | null)[][];
-    }> {
+    }): Promise<VectorQueryResult> {
         const collection = this.ensureCollection();
         const results = await collection.query({
             queryTexts: [params.queryText],
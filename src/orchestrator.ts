@@ -11,19 +11,42 @@
  * @see docs/system_architecture.md §5 — High-Level Lifecycle
  */
 import pLimit from "p-limit";
+import { v4 as uuidv4 } from "uuid";
+import type { LanguageModel } from "ai";
 import { EnvironmentManager } from "./core/environment.js";
 import { ActorAgent } from "./agents/actor.js";
 import { Critic } from "./agents/critic.js";
 import { Mutator } from "./agents/mutator.js";
+import type { MutatorEvents } from "./agents/mutator.js";
 import { Provisioner } from "./agents/provisioner.js";
 import type { Explorer } from "./agents/explorer.js";
 import type { Capitalizer } from "./agents/capitalizer.js";
+import type { Summarizer } from "./agents/summarizer.js";
 import type { TensionDisruptor, InformationDisruptor } from "./agents/disruptor.js";
 import type { GenericStateObject } from "./schemas/state.js";
-import type { FrameworkConfig } from "./schemas/config.js";
+import type { NewAgentProvisioning } from "./schemas/meta.js";
+import type { SimulationCheckpoint } from "./schemas/checkpoint.js";
+import type { FrameworkConfig, MetaAgentRole, ModelAssignment } from "./schemas/config.js";
 import type { LLMClient } from "./llm/client.js";
-import type { EpochResult } from "./agents/mutator.js";
-import { mean, lowerConfidenceBound, mannWhitneyUTest } from "./core/statistics.js";
+import { CostTracker } from "./llm/cost.js";
+import type { CostRecord } from "./llm/cost.js";
+import { resolveLanguageModel } from "./llm/resolve.js";
+import { withSeedScope } from "./llm/seed.js";
+import { createSeededRandom, hashString } from "./core/random.js";
+import type { EpisodeRecord, AgentVersion } from "./core/episode.js";
+import type { SqliteDatabase } from "./memory/sqlite.js";
+import { RunRecorder } from "./memory/recorder.js";
+import type { CheckpointStore } from "./memory/checkpoint.js";
+import { mean, standardDeviation, lowerConfidenceBound, mannWhitneyUTest } from "./core/statistics.js";
+import { LLMTransientError, RunCancelledError, throwIfCancelled } from "./errors/index.js";
+import { SimulationEventBus } from "./events.js";
+import type { EpisodeKind } from "./events.js";
+
+/** Models assigned to actors, keyed by actor ID, and to meta-agent roles. */
+export interface ModelAssignments {
+    actors?: Record<string, ModelAssignment>;
+    roles?: Partial<Record<MetaAgentRole, ModelAssignment>>;
+}
 
 export interface OrchestratorOptions {
     config: FrameworkConfig;
@@ -35,100 +58,466 @@ export interface OrchestratorOptions {
     llmClient: LLMClient;
     explorer?: Explorer;
     capitalizer?: Capitalizer;
+    summarizer?: Summarizer;
     tensionDisruptor?: TensionDisruptor;
     infoDisruptor?: InformationDisruptor;
+    /**
+     * Per-agent models. Each assigned actor or meta-agent role gets its own
+     * client sharing `llmClient`'s cost tracker, cassette and retry policy.
+     * An actor's temperature is its starting temperature, which the Mutator
+     * may still evolve. Unassigned agents keep the client they were built with.
+     */
+    modelAssignments?: ModelAssignments;
     /** Maximum number of generations to run. Default: 100 */
     maxGenerations?: number;
+    /**
+     * Optional SQLite system of record. When provided, every generation, agent
+     * profile, episode, action log and Provisioner spec is persisted.
+     * @see docs/data_and_memory_schemas.md §1 — Relational Logging
+     */
+    database?: SqliteDatabase;
+    /** Where to save a checkpoint after each completed generation. */
+    checkpointStore?: CheckpointStore;
+    /** Identifier under which checkpoints are saved. Default: a fresh UUID. */
+    runId?: string;
+    /**
+     * Run ID of a checkpoint (loaded from `checkpointStore`) to resume from.
+     * The run continues at the generation after the checkpointed one.
+     */
+    resumeFrom?: string;
+    /**
+     * Bus the run emits its lifecycle events on. Pass one to subscribe before
+     * the run starts. Default: a bus private to the run.
+     * @see SimulationEvents
+     */
+    events?: SimulationEventBus;
+    /**
+     * Cancels the run. In-flight LLM requests are aborted, running episodes
+     * end as `cancelled`, and the run returns what it completed so far with
+     * `terminationReason: "cancelled"`. The last checkpoint stays the one
+     * saved after the last fully completed generation.
+     */
+    signal?: AbortSignal;
     /** Callback for human-in-the-loop approval of Provisioner-created agents. */
     onCreationApproval?: (spec: object) => Promise<boolean>;
-    /** Callback for logging/monitoring each generation. */
-    onGenerationComplete?: (generation: number, results: EpochResult[]) => void;
-    /** Callback for real-time turn completion logging. */
+    /** Shorthand for subscribing to `generation:complete`. */
+    onGenerationComplete?: (generation: number, episodes: EpisodeRecord[]) => void;
+    /** Shorthand for subscribing to `turn:complete` for epoch episodes. */
     onTurnComplete?: (speakerId: string, publicDialogue: string) => void;
-    /** Callback for new agent creation logging. */
+    /** Shorthand for subscribing to `provisioner:approved`. */
     onAgentCreated?: (agentId: string, archetype: string) => void;
     /** Callback for phase changes. */
     onPhaseChange?: (phase: string) => void;
 }
 
+/** Summary statistics over a set of judge scores. */
+export interface ScoreStats {
+    mean: number;
+    stdDev: number;
+    min: number;
+    max: number;
+}
+
+/** Outcome of one generation's epoch. */
+export interface GenerationSummary {
+    generation: number;
+    /** Episodes scored this generation (dropped episodes excluded). */
+    episodeCount: number;
+    /** Judge score statistics per agent, including created agents. */
+    scores: Record<string, ScoreStats>;
+    /** Episode count per termination reason. */
+    terminationReasons: Record<string, number>;
+    /** True if every episode reached agreement, ending the run. */
+    equilibrium: boolean;
+}
+
+/** A strategy an actor ran with from `generation` onward. */
+export interface StrategyRecord {
+    /** Generation whose mutation phase accepted it, or null for the starting strategy. */
+    generation: number | null;
+    strategy: string;
+    hyperparameters: { temperature?: number; frequency_penalty?: number };
+}
+
+/** A Provisioner design and how its shadow test went. */
+export interface CreatedAgentSummary {
+    generation: number;
+    agentId: string;
+    archetype: string;
+    /** `declined` means the human approval gate refused it before any trial. */
+    status: "active" | "rejected" | "declined";
+    /** Mean primary-actor score per shadow trial. Empty if declined. */
+    shadowScores: number[];
+    baselineMean: number;
+    shadowLcb: number;
+    pValue: number;
+    scoreDelta: number;
+}
+
+/** Everything a finished run produced, for programmatic post-processing. */
+export interface SimulationResult {
+    runId: string;
+    /** Generations run by this call, in order. A resumed run starts after its checkpoint. */
+    generations: GenerationSummary[];
+    /** Accepted strategies per primary actor, oldest first. */
+    strategyHistory: Record<string, StrategyRecord[]>;
+    createdAgents: CreatedAgentSummary[];
+    /** Episode count per termination reason across all generations. */
+    terminationReasons: Record<string, number>;
+    /** Why the run ended. */
+    terminationReason: "max_generations" | "equilibrium" | "cancelled";
+    /** The run seed, from the config or the resumed checkpoint. Undefined for unseeded runs. */
+    seed?: number;
+    equilibriumReached: boolean;
+    /** Tokens and dollars spent by every client sharing the run's cost tracker. */
+    totalTokens: number;
+    totalCostUsd: number;
+    /** The agents in play when the run ended, including created agents. */
+    activeAgents: Record<string, ActorAgent>;
+}
+
 /**
  * Run the full simulation lifecycle.
  *
  * @see docs/engineering_implementation.md §5 — Example Execution Script
  */
-export async function runFullSimulation(options: OrchestratorOptions): Promise<void> {
+export async function runFullSimulation(options: OrchestratorOptions): Promise<SimulationResult> {
     const {
         config,
         initialState,
-        agents,
         judge,
         mutator,
         provisioner,
         llmClient,
         explorer,
         capitalizer,
+        summarizer,
         tensionDisruptor,
         infoDisruptor,
         maxGenerations = config.max_generations,
+        database,
+        checkpointStore,
+        resumeFrom,
         onCreationApproval,
         onGenerationComplete,
         onTurnComplete,
         onAgentCreated,
         onPhaseChange,
+        modelAssignments,
+        signal,
     } = options;
 
+    // Every LLM call is priced and checked against max_run_cost_usd
+    // Enforced by docs/safety_and_sandboxing.md §3 — Hard Token Limits
+    llmClient.costTracker ??= new CostTracker({
+        prices: config.model_prices,
+        maxCostUsd: config.max_run_cost_usd,
+    });
+
+    // Give assigned actors and meta-agents their own models
+    const agents = applyModelAssignments(llmClient, options.agents, {
+        judge,
+        mutator,
+        provisioner,
+        capitalizer,
+        summarizer,
+        explorer,
+        info_disruptor: infoDisruptor,
+        tension_disruptor: tensionDisruptor,
+    }, modelAssignments);
+
     // Track the mutable agent references and creation attempts
     const activeAgents = { ...agents };
     const failedArchetypes: string[] = [];
+    const primaryActorIds = Object.keys(agents);
+    const recorder = database ? new RunRecorder(database) : undefined;
+    // Provisioner specs of mounted created agents, needed to rebuild them on resume
+    const createdSpecs: Record<string, NewAgentProvisioning> = {};
+    let runId = options.runId ?? uuidv4();
+    let startGeneration = 0;
+    let seed = config.seed;
+    let lastCreationGeneration: number | undefined;
 
-    for (let generation = 0; generation < maxGenerations; generation++) {
-        // --- Phase 1: Run an Epoch ---
-        onPhaseChange?.(`Gen ${generation}: Execution Phase`);
-        // Enforced by docs/system_architecture.md §5 — Execution Phase
-        const epochResults: EpochResult[] = [];
-        const limit = pLimit(config.max_concurrency ?? 5);
+    if (resumeFrom) {
+        if (!checkpointStore) {
+            throw new Error("resumeFrom requires a checkpointStore to load the checkpoint from.");
+        }
+        const checkpoint = await checkpointStore.load(resumeFrom);
+        if (!checkpoint) {
+            throw new Error(`No checkpoint found for run: ${resumeFrom}`);
+        }
+        restoreCheckpoint(checkpoint, { agents, initialState, llmClient, activeAgents, createdSpecs });
+        failedArchetypes.push(...checkpoint.failed_archetypes);
+        mutator.plateauCounter = checkpoint.plateau_counter;
+        if (checkpoint.last_generation_id) recorder?.continueFrom(checkpoint.last_generation_id);
+        runId = checkpoint.run_id;
+        startGeneration = checkpoint.generation + 1;
+        seed = checkpoint.seed ?? seed;
+        lastCreationGeneration = checkpoint.last_creation_generation;
+    }
 
-        const episodePromises = Array.from({ length: config.epoch_size }).map(() =>
-            limit(async () => {
-                const env = new EnvironmentManager(structuredClone(initialState), config);
-                env.turnOrder = Object.keys(activeAgents);
+    // Seeded runs give every episode and meta-agent phase its own seed scope,
+    // derived from where it sits in the run rather than from when it started,
+    // so concurrency cannot reorder the randomness
+    const seedFor = (...coordinates: Array<string | number>): number =>
+        hashString([seed, ...coordinates].join(":"));
+    const inSeedScope = <T>(coordinates: Array<string | number>, fn: () => Promise<T>): Promise<T> =>
+        seed === undefined ? fn() : withSeedScope(seedFor(...coordinates), fn);
+
+    const generationSummaries: GenerationSummary[] = [];
+    const createdAgents: CreatedAgentSummary[] = [];
+    const strategyHistory: Record<string, StrategyRecord[]> = {};
+    for (const agentId of primaryActorIds) {
+        const agent = activeAgents[agentId];
+        if (agent) {
+            strategyHistory[agentId] = [{ generation: null, ...agentVersion(agent) }];
+        }
+    }
 
-                // Wire Meta-Agents if provided
+    // --- Event wiring ---
+    // Every listener this run adds is removed when it ends, so a caller-owned
+    // bus, mutator or cost tracker can be reused across runs.
+    const events = options.events ?? new SimulationEventBus();
+    const costTracker = llmClient.costTracker;
+    let currentGeneration = startGeneration;
+    const detachers: Array<() => void> = [];
+    if (recorder) detachers.push(recorder.attach(events, primaryActorIds));
+    if (onGenerationComplete) {
+        detachers.push(events.subscribe("generation:complete", ({ generation, episodes }) => {
+            onGenerationComplete(generation, episodes);
+        }));
+    }
+    if (onTurnComplete) {
+        detachers.push(events.subscribe("turn:complete", ({ kind, speakerId, proposal }) => {
+            if (kind === "epoch") onTurnComplete(speakerId, proposal.public_dialogue);
+        }));
+    }
+    if (onAgentCreated) {
+        detachers.push(events.subscribe("provisioner:approved", ({ spec }) => {
+            onAgentCreated(spec.agent_id, spec.archetype);
+        }));
+    }
+
+    const onCostRecord = (record: CostRecord) => {
+        events.emit("cost:update", {
+            ...record,
+            totalCostUsd: costTracker.totalCostUsd,
+            totalTokens: costTracker.totalTokens,
+        });
+    };
+    costTracker.on("record", onCostRecord);
+    detachers.push(() => costTracker.off("record", onCostRecord));
+
+    const onVariantsGenerated = ({ agent, variants }: MutatorEvents["variants:generated"][0]) => {
+        events.emit("mutation:variants-generated", {
+            generation: currentGeneration,
+            agentId: agent.id,
+            variants: variants.map(agentVersion),
+        });
+    };
+    const onEvolveDecided = ({ agent, variant, accepted, lcb, pValue, baselineMean }: MutatorEvents["evolve:decided"][0]) => {
+        const decision = { generation: currentGeneration, agentId: agent.id, lcb, pValue, baselineMean };
+        if (accepted && variant) {
+            events.emit("mutation:accepted", { ...decision, version: agentVersion(variant) });
+        } else {
+            events.emit("mutation:rejected", decision);
+        }
+    };
+    mutator.on("variants:generated", onVariantsGenerated);
+    mutator.on("evolve:decided", onEvolveDecided);
+    detachers.push(() => {
+        mutator.off("variants:generated", onVariantsGenerated);
+        mutator.off("evolve:decided", onEvolveDecided);
+    });
+
+    const saveCheckpoint = async (generation: number): Promise<void> => {
+        if (!checkpointStore) return;
+        const checkpointAgents: SimulationCheckpoint["agents"] = {};
+        for (const [agentId, agent] of Object.entries(activeAgents)) {
+            checkpointAgents[agentId] = {
+                mutable_strategy: agent.mutableStrategy,
+                hyperparameters: agent.hyperparameters,
+                provisioning: createdSpecs[agentId],
+            };
+        }
+        await checkpointStore.save({
+            run_id: runId,
+            generation,
+            agents: checkpointAgents,
+            failed_archetypes: [...failedArchetypes],
+            plateau_counter: mutator.plateauCounter,
+            last_creation_generation: lastCreationGeneration,
+            seed,
+            scout_hypotheses: initialState.scout_hypotheses,
+            last_generation_id: recorder?.currentGenerationId,
+            saved_at: new Date().toISOString(),
+        });
+    };
+
+    const limit = pLimit(config.max_concurrency ?? 5);
+
+    /**
+     * Play and judge one episode, forwarding its turn events to the bus.
+     * Only epoch episodes get the Capitalizer, Summarizer and Disruptors.
+     */
+    const playEpisode = (params: {
+        generation: number;
+        kind: EpisodeKind;
+        /** Identifies the episode among those of its generation and kind. */
+        slot: string;
+        agents: Record<string, ActorAgent>;
+        /** Specs of created agents under trial that are not mounted yet. */
+        provisioned?: Record<string, NewAgentProvisioning>;
+        config?: FrameworkConfig;
+        turnOrder?: string[];
+    }): Promise<EpisodeRecord> => {
+        const { generation, kind, slot } = params;
+        return inSeedScope([generation, kind, slot], async () => {
+            // Random even in seeded runs, so reruns and resumes can record to the same database
+            const episodeId = uuidv4();
+            const ref = { episodeId, generation, kind };
+            const env = new EnvironmentManager(structuredClone(initialState), params.config ?? config);
+            env.turnOrder = params.turnOrder ?? Object.keys(activeAgents);
+            // Created agents keep their permissions in every episode they play
+            const specs = { ...createdSpecs, ...params.provisioned };
+            const createdAgents: Record<string, NewAgentProvisioning> = {};
+            for (const agentId of Object.keys(params.agents)) {
+                const spec = specs[agentId];
+                if (!spec) continue;
+                env.bindPermissions(agentId, spec.permissions);
+                createdAgents[agentId] = spec;
+            }
+
+            // Wire Meta-Agents if provided
+            if (kind === "epoch") {
                 if (capitalizer) env.setCapitalizer(capitalizer);
+                if (summarizer) env.setSummarizer(summarizer);
                 if (tensionDisruptor) env.setTensionAgent(tensionDisruptor);
                 if (infoDisruptor) env.setInfoDisruptor(infoDisruptor);
+            }
 
-                // Wire real-time logging callbacks
-                if (onTurnComplete) {
-                    env.on("turn:complete", ({ speakerId, proposal }) => {
-                        onTurnComplete(speakerId, proposal.public_dialogue);
-                    });
-                }
-                if (onAgentCreated) {
-                    env.on("agent:created", ({ spec }) => {
-                        onAgentCreated(spec.agent_id, spec.archetype);
-                    });
+            env.on("turn:complete", ({ speakerId, proposal, logEntry }) => {
+                events.emit("turn:complete", { ...ref, speakerId, proposal, logEntry });
+            });
+            env.on("turn:penalty", ({ speakerId, retries }) => {
+                events.emit("turn:penalty", { ...ref, speakerId, retries });
+            });
+            env.on("turn:violation", ({ speakerId, violations, policy }) => {
+                events.emit("turn:violation", { ...ref, speakerId, violations, policy });
+            });
+
+            const agentVersions: Record<string, AgentVersion> = {};
+            for (const [agentId, agent] of Object.entries(params.agents)) {
+                agentVersions[agentId] = agentVersion(agent);
+            }
+
+            events.emit("episode:start", ref);
+            const [finalState, transcript] = await env.runEpisode(params.agents, signal);
+
+            // A cancelled episode is kept unjudged
+            let evaluation: Awaited<ReturnType<Critic["evaluate"]>> = { scores: {}, rationales: {} };
+            let terminationReason = env.terminationReason;
+            if (terminationReason !== "cancelled") {
+                try {
+                    evaluation = await judge.evaluate(initialState, finalState, transcript, signal);
+                } catch (err) {
+                    if (!(err instanceof RunCancelledError)) throw err;
+                    terminationReason = "cancelled";
                 }
+            }
+            const record: EpisodeRecord = {
+                id: ref.episodeId,
+                generation,
+                finalState,
+                scores: evaluation.scores,
+                rationales: evaluation.rationales,
+                terminationReason,
+                // runEpisode() prunes its own logs; the transcript keeps every entry
+                transcript: [...env.transcript],
+                stateHistory: env.stateHistory,
+                tokenUsage: env.tokenUsage,
+                turnCount: finalState.turn_number,
+                agentVersions,
+                turnOrder: [...env.turnOrder],
+                createdAgents,
+                summaries: [...env.summaries],
+                penalties: [...env.penalties],
+            };
+            events.emit("episode:complete", { ...ref, record });
+            return record;
+        });
+    };
 
-                const [finalState, transcript] = await env.runEpisode(activeAgents);
-                const evaluation = await judge.evaluate(
-                    initialState,
-                    finalState,
-                    transcript,
-                );
-                return [finalState, evaluation.scores, env.terminationReason] as EpochResult;
-            })
+    const onDropped = (err: LLMTransientError) =>
+        onPhaseChange?.(`Gen ${currentGeneration}: Dropped an episode after LLM failures (${err.message})`);
+
+    /** Phase 1: run an Epoch of episodes with the active agents. */
+    const runEpoch = async (generation: number): Promise<EpisodeRecord[]> => {
+        onPhaseChange?.(`Gen ${generation}: Execution Phase`);
+        // Enforced by docs/system_architecture.md §5 — Execution Phase
+        const episodePromises = Array.from({ length: config.epoch_size }).map((_, index) =>
+            limit(() => playEpisode({ generation, kind: "epoch", slot: String(index), agents: activeAgents }))
         );
-        epochResults.push(...(await Promise.all(episodePromises)));
+        return settleEpisodes(episodePromises, onDropped);
+    };
+
+    /**
+     * Run an Explorer scan and inject its hypotheses into the state every
+     * later episode starts from.
+     */
+    const scanExplorer = async (
+        explorer: Explorer,
+        generation: number,
+        trigger: "sweep" | "ingredient",
+        label: string,
+    ): Promise<void> => {
+        if (seed !== undefined) explorer.random = createSeededRandom(seedFor(generation, label));
+        const hypotheses = await inSeedScope([generation, label], () => explorer.scan(signal));
+        events.emit("explorer:scan", { generation, trigger, hypotheses });
 
-        onGenerationComplete?.(generation, epochResults);
+        (initialState as GenericStateObject).scout_hypotheses = hypotheses.map((h) => ({
+            title: h.title,
+            feasibility_score: h.feasibility_score,
+            disruption_target: h.disruption_target,
+        }));
+    };
+
+    // --- Explorer scans on new ingredients ---
+    // Enforced by docs/explorer_agent.md §6 — Event-driven trigger
+    // Ingredients arriving while a scan runs are covered by one follow-up scan.
+    // Failures surface at the next generation boundary.
+    let ingredientScan: Promise<void> | undefined;
+    let ingredientScanFailure: unknown;
+    let rescanRequested = false;
+    let ingredientScanCount = 0;
+    if (explorer && config.scout_on_new_ingredient) {
+        const onIngredientIngested = () => {
+            rescanRequested = true;
+            ingredientScan ??= (async () => {
+                while (rescanRequested) {
+                    rescanRequested = false;
+                    await scanExplorer(explorer, currentGeneration, "ingredient", `ingredient:${ingredientScanCount++}`);
+                }
+            })()
+                .catch((err) => { ingredientScanFailure ??= err; })
+                .finally(() => { ingredientScan = undefined; });
+        };
+        explorer.on("ingredient:ingested", onIngredientIngested);
+        detachers.push(() => explorer.off("ingredient:ingested", onIngredientIngested));
+    }
 
-        const allAgreed = epochResults.every(r => r[2] === "agreement");
-        if (allAgreed) {
-            onPhaseChange?.(`Gen ${generation}: Equilibrium Reached (All episodes reached agreement)`);
-            break;
+    /** Wait for a running ingredient scan and rethrow its failure, if any. */
+    const settleIngredientScans = async (): Promise<void> => {
+        await ingredientScan;
+        if (ingredientScanFailure !== undefined) {
+            const failure = ingredientScanFailure;
+            ingredientScanFailure = undefined;
+            throw failure;
         }
+    };
 
+    /** Phases 2 and 3, then the periodic Explorer sweep. */
+    const improve = async (generation: number, episodes: EpisodeRecord[]): Promise<void> => {
         // --- Phase 2: Self-Improvement (Mutate) ---
         onPhaseChange?.(`Gen ${generation}: Mutation & Shadow Trials`);
         // Enforced by docs/system_architecture.md §5 — Mutation Phase
@@ -139,27 +528,53 @@ export async function runFullSimulation(options: OrchestratorOptions): Promise<v
             const primaryAgent = activeAgents[primaryActorId];
             if (!primaryAgent) return null;
 
+            // The Mutator starts its trial batches in a fixed order
+            let trialBatch = 0;
             const runShadowTrial = async (variant: ActorAgent, isFastPrune?: boolean): Promise<number[]> => {
+                const batch = trialBatch++;
                 const trialCount = isFastPrune ? 3 : config.shadow_trial_count;
                 const trialConfig = isFastPrune
                     ? { ...config, max_turns_per_episode: 3 }
                     : config;
+                const shadowAgents = { ...activeAgents, [primaryActorId]: variant };
 
-                const trialPromises = Array.from({ length: trialCount }).map(() =>
+                const trialPromises = Array.from({ length: trialCount }).map((_, index) =>
                     limit(async () => {
-                        const shadowEnv = new EnvironmentManager(structuredClone(initialState), trialConfig as FrameworkConfig);
-                        shadowEnv.turnOrder = Object.keys(activeAgents);
-                        const shadowAgents = { ...activeAgents, [primaryActorId]: variant };
-                        const [finalState, transcript] = await shadowEnv.runEpisode(shadowAgents);
-                        const eval_ = await judge.evaluate(initialState, finalState, transcript);
-                        return eval_.scores[primaryActorId] ?? 0;
+                        const record = await playEpisode({
+                            generation,
+                            kind: "mutation_trial",
+                            slot: `${primaryActorId}:${batch}:${index}`,
+                            agents: shadowAgents,
+                            config: trialConfig,
+                        });
+                        return record.scores[primaryActorId] ?? 0;
                     })
                 );
-                return Promise.all(trialPromises);
+                const scores = await settleEpisodes(trialPromises, onDropped);
+                // Cancelled trials score 0 and must never decide a mutation
+                throwIfCancelled(signal);
+                events.emit("shadow-trial:result", {
+                    generation,
+                    agentId: primaryActorId,
+                    kind: "mutation_trial",
+                    version: agentVersion(variant),
+                    fastPrune: isFastPrune ?? false,
+                    scores,
+                });
+                return scores;
             };
 
-            const newAgent = await mutator.evolve(primaryAgent, epochResults, config, runShadowTrial);
-            return { primaryActorId, newAgent };
+            try {
+                const newAgent = await inSeedScope([generation, "mutation", primaryActorId], () =>
+                    mutator.evolve(primaryAgent, episodes, config, runShadowTrial, signal),
+                );
+                return { primaryActorId, newAgent };
+            } catch (err) {
+                // A provider outage skips this actor's mutation for the generation
+                if (!(err instanceof LLMTransientError)) throw err;
+                onPhaseChange?.(`Gen ${generation}: Skipped mutation of ${primaryActorId} (${err.message})`);
+                return null;
+            }
         }
         );
 
@@ -167,21 +582,28 @@ export async function runFullSimulation(options: OrchestratorOptions): Promise<v
         for (const res of mutationResults) {
             if (res && res.newAgent) {
                 activeAgents[res.primaryActorId] = res.newAgent;
+                strategyHistory[res.primaryActorId]?.push({ generation, ...agentVersion(res.newAgent) });
                 anyMutationSucceeded = true;
             }
         }
 
-        if (anyMutationSucceeded) continue; // Mutation succeeded for at least one agent; skip creation
+        if (anyMutationSucceeded) return; // Mutation succeeded for at least one agent; skip creation
 
         // --- Phase 3: Self-Creation (if plateau detected) ---
         onPhaseChange?.(`Gen ${generation}: Self-Creation Phase`);
         // Enforced by docs/system_architecture.md §5 — Creation Phase
-        if (mutator.isPlateaued(config.creation_patience)) {
-            const newAgentSpec = await provisioner.designAgent(
-                initialState,
-                epochResults,
-                failedArchetypes
+        // Each attempt blocks the next creation_cooldown_generations generations
+        const cooldownLeft = lastCreationGeneration === undefined
+            ? 0
+            : lastCreationGeneration + config.creation_cooldown_generations + 1 - generation;
+        if (mutator.isPlateaued(config.creation_patience) && cooldownLeft > 0) {
+            onPhaseChange?.(`Gen ${generation}: Creation cooling down (${cooldownLeft} more generation(s))`);
+        } else if (mutator.isPlateaued(config.creation_patience)) {
+            lastCreationGeneration = generation;
+            const newAgentSpec = await inSeedScope([generation, "creation"], () =>
+                provisioner.designAgent(initialState, episodes, failedArchetypes, undefined, signal),
             );
+            events.emit("provisioner:designed", { generation, spec: newAgentSpec });
 
             // Human-in-the-loop gate
             // Enforced by docs/safety_and_sandboxing.md §3 — HITL for Creation
@@ -189,12 +611,28 @@ export async function runFullSimulation(options: OrchestratorOptions): Promise<v
                 const approved = onCreationApproval
                     ? await onCreationApproval(newAgentSpec)
                     : false;
-                if (!approved) continue;
+                throwIfCancelled(signal);
+                if (!approved) {
+                    const summary: CreatedAgentSummary = {
+                        generation,
+                        agentId: newAgentSpec.agent_id,
+                        archetype: newAgentSpec.archetype,
+                        status: "declined",
+                        shadowScores: [],
+                        baselineMean: 0,
+                        shadowLcb: 0,
+                        pValue: 1,
+                        scoreDelta: 0,
+                    };
+                    createdAgents.push(summary);
+                    events.emit("provisioner:rejected", { generation, spec: newAgentSpec, summary });
+                    return;
+                }
             }
 
             // Phase 3b: The Shadow Test
-            const baselinePrimaryScores = epochResults.map((result) => {
-                const primaryScores = Object.entries(result[1])
+            const baselinePrimaryScores = episodes.map((episode) => {
+                const primaryScores = Object.entries(episode.scores)
                     .filter(([id]) => agents[id])
                     .map(([_, score]) => score);
                 return mean(primaryScores);
@@ -206,48 +644,267 @@ export async function runFullSimulation(options: OrchestratorOptions): Promise<v
             const shadowAgent = shadowEnv.mountAgent(newAgentSpec, llmClient);
             const shadowAgents = { ...activeAgents, [newAgentSpec.agent_id]: shadowAgent };
 
-            const shadowTrialPromises = Array.from({ length: config.shadow_trial_count }).map(() =>
+            const shadowTrialPromises = Array.from({ length: config.shadow_trial_count }).map((_, index) =>
                 limit(async () => {
-                    const env = new EnvironmentManager(structuredClone(initialState), config);
-                    env.turnOrder = shadowEnv.turnOrder; // Use the injected sequence
-                    const [finalState, transcript] = await env.runEpisode(shadowAgents);
-                    const eval_ = await judge.evaluate(initialState, finalState, transcript);
+                    const record = await playEpisode({
+                        generation,
+                        kind: "creation_trial",
+                        slot: String(index),
+                        agents: shadowAgents,
+                        provisioned: { [newAgentSpec.agent_id]: newAgentSpec },
+                        turnOrder: shadowEnv.turnOrder, // Use the injected sequence
+                    });
                     // For shadow testing a new agent, we still evaluate against the primary actors' success
-                    const primaryScores = Object.entries(eval_.scores)
+                    const primaryScores = Object.entries(record.scores)
                         .filter(([id]) => agents[id])
                         .map(([_, score]) => score);
                     return primaryScores.reduce((s, score) => s + score, 0) / primaryScores.length;
                 })
             );
 
-            const shadowScores = await Promise.all(shadowTrialPromises);
+            const shadowScores = await settleEpisodes(shadowTrialPromises, onDropped);
+            throwIfCancelled(signal);
+            events.emit("shadow-trial:result", {
+                generation,
+                agentId: newAgentSpec.agent_id,
+                kind: "creation_trial",
+                version: agentVersion(shadowAgent),
+                fastPrune: false,
+                scores: shadowScores,
+            });
             const shadowLcb = lowerConfidenceBound(shadowScores, config.acceptance_lcb_lambda);
             const pValue = mannWhitneyUTest(shadowScores, baselinePrimaryScores).pValue;
-
-            if (
+            const scoreDelta = mean(shadowScores) - baseAvg;
+            const accepted =
                 shadowLcb > baseAvg + config.improvement_margin &&
-                pValue < config.acceptance_p_value_threshold
-            ) {
+                pValue < config.acceptance_p_value_threshold;
+            const summary: CreatedAgentSummary = {
+                generation,
+                agentId: newAgentSpec.agent_id,
+                archetype: newAgentSpec.archetype,
+                status: accepted ? "active" : "rejected",
+                shadowScores,
+                baselineMean: baseAvg,
+                shadowLcb,
+                pValue,
+                scoreDelta,
+            };
+            createdAgents.push(summary);
+
+            if (accepted) {
 
                 const env = new EnvironmentManager(structuredClone(initialState), config);
                 env.turnOrder = Object.keys(activeAgents);
                 const newAgent = env.mountAgent(newAgentSpec, llmClient);
                 activeAgents[newAgentSpec.agent_id] = newAgent;
+                createdSpecs[newAgentSpec.agent_id] = newAgentSpec;
+                events.emit("provisioner:approved", { generation, spec: newAgentSpec, agent: newAgent, summary });
             } else {
                 failedArchetypes.push(newAgentSpec.archetype); // Only record the archetype archetype ID
+                events.emit("provisioner:rejected", { generation, spec: newAgentSpec, summary });
             }
         }
 
         // --- Explorer sweep (periodic) ---
         // Enforced by docs/explorer_agent.md §6 — Cron-based trigger
         if (explorer && generation % config.scout_sweep_interval_generations === 0) {
-            const hypotheses = await explorer.scan();
+            await scanExplorer(explorer, generation, "sweep", "explorer");
+        }
+    };
+
+    let terminationReason: SimulationResult["terminationReason"] = "max_generations";
+    try {
+        for (let generation = startGeneration; generation < maxGenerations; generation++) {
+            throwIfCancelled(signal);
+            currentGeneration = generation;
+            events.emit("generation:start", { generation, activeAgents: { ...activeAgents } });
+
+            const episodes = await runEpoch(generation);
+            const allAgreed = episodes.every((episode) => episode.terminationReason === "agreement");
+            const summary = summarizeGeneration(generation, episodes, allAgreed);
+            generationSummaries.push(summary);
+            // A cancelled epoch is reported but never mutated or checkpointed
+            throwIfCancelled(signal);
+            if (allAgreed) {
+                onPhaseChange?.(`Gen ${generation}: Equilibrium Reached (All episodes reached agreement)`);
+            } else {
+                await improve(generation, episodes);
+            }
+
+            await settleIngredientScans();
+            await saveCheckpoint(generation);
+            events.emit("generation:complete", { generation, episodes, summary });
+            if (allAgreed) {
+                terminationReason = "equilibrium";
+                break;
+            }
+        }
+    } catch (err) {
+        if (!(err instanceof RunCancelledError)) throw err;
+        terminationReason = "cancelled";
+        onPhaseChange?.(`Gen ${currentGeneration}: Run cancelled`);
+    } finally {
+        for (const detach of detachers) detach();
+        // Never leave a scan running past the end of the run
+        await ingredientScan;
+    }
+
+    const terminationReasons: Record<string, number> = {};
+    for (const summary of generationSummaries) {
+        for (const [reason, count] of Object.entries(summary.terminationReasons)) {
+            terminationReasons[reason] = (terminationReasons[reason] ?? 0) + count;
+        }
+    }
+    return {
+        runId,
+        generations: generationSummaries,
+        strategyHistory,
+        createdAgents,
+        terminationReasons,
+        terminationReason,
+        equilibriumReached: terminationReason === "equilibrium",
+        seed,
+        totalTokens: costTracker.totalTokens,
+        totalCostUsd: costTracker.totalCostUsd,
+        activeAgents: { ...activeAgents },
+    };
+}
+
+/** Score statistics and termination counts for one generation's epoch. */
+function summarizeGeneration(generation: number, episodes: EpisodeRecord[], equilibrium: boolean): GenerationSummary {
+    const scoresByAgent: Record<string, number[]> = {};
+    const terminationReasons: Record<string, number> = {};
+    for (const episode of episodes) {
+        for (const [agentId, score] of Object.entries(episode.scores)) {
+            (scoresByAgent[agentId] ??= []).push(score);
+        }
+        terminationReasons[episode.terminationReason] = (terminationReasons[episode.terminationReason] ?? 0) + 1;
+    }
+    const scores: Record<string, ScoreStats> = {};
+    for (const [agentId, values] of Object.entries(scoresByAgent)) {
+        scores[agentId] = {
+            mean: mean(values),
+            stdDev: standardDeviation(values),
+            min: Math.min(...values),
+            max: Math.max(...values),
+        };
+    }
+    return { generation, episodeCount: episodes.length, scores, terminationReasons, equilibrium };
+}
+
+/** The strategy and hyperparameters an agent currently plays with. */
+function agentVersion(agent: ActorAgent): AgentVersion {
+    return { strategy: agent.mutableStrategy, hyperparameters: agent.hyperparameters };
+}
 
-            (initialState as GenericStateObject).scout_hypotheses = hypotheses.map((h) => ({
-                title: h.title,
-                feasibility_score: h.feasibility_score,
-                disruption_target: h.disruption_target,
-            }));
+/**
+ * Give assigned actors and meta-agents their own models, each on a client
+ * sharing `llmClient`'s cost tracker, cassette and retry policy. Meta-agents
+ * are updated in place.
+ * @returns The actors, with assigned ones replaced.
+ * @throws Error if a model is assigned to an actor not in `agents`.
+ */
+export function applyModelAssignments(
+    llmClient: LLMClient,
+    agents: Record<string, ActorAgent>,
+    metaAgents: Partial<Record<MetaAgentRole, { llmClient: LLMClient }>>,
+    assignments?: ModelAssignments,
+): Record<string, ActorAgent> {
+    const assigned = { ...agents };
+    for (const [agentId, assignment] of Object.entries(assignments?.actors ?? {})) {
+        const agent = assigned[agentId];
+        if (!agent) throw new Error(`Model assigned to unknown actor: ${agentId}`);
+        assigned[agentId] = agent.withLLMClient(
+            llmClient.withModel(assignedModel(llmClient, assignment)),
+            assignment.temperature,
+        );
+    }
+    for (const [role, assignment] of Object.entries(assignments?.roles ?? {})) {
+        const agent = metaAgents[role as MetaAgentRole];
+        if (agent && assignment) {
+            agent.llmClient = llmClient.withModel(assignedModel(llmClient, assignment), {
+                temperature: assignment.temperature,
+            });
         }
     }
+    return assigned;
+}
+
+/** The model a role is assigned, or the run's default model if only the temperature changes. */
+function assignedModel(llmClient: LLMClient, assignment: ModelAssignment): LanguageModel {
+    if (!assignment.provider) return llmClient.model;
+    return resolveLanguageModel(assignment.provider, assignment.model, {
+        baseURL: assignment.base_url,
+        headers: assignment.headers,
+    });
+}
+
+/**
+ * Await a batch of episode runs, dropping any that failed with an
+ * LLMTransientError so one provider outage cannot fail the whole batch.
+ * Any other error is rethrown, as is the last transient error if no run survived.
+ */
+async function settleEpisodes<T>(
+    runs: Promise<T>[],
+    onDropped: (err: LLMTransientError) => void,
+): Promise<T[]> {
+    const settled = await Promise.allSettled(runs);
+    const results: T[] = [];
+    let lastError: LLMTransientError | undefined;
+    for (const outcome of settled) {
+        if (outcome.status === "fulfilled") {
+            results.push(outcome.value);
+        } else if (outcome.reason instanceof LLMTransientError) {
+            lastError = outcome.reason;
+            onDropped(outcome.reason);
+        } else {
+            throw outcome.reason;
+        }
+    }
+    if (results.length === 0 && lastError) throw lastError;
+    return results;
+}
+
+/**
+ * Rebuild the live agent map from a checkpoint. Primary actors keep their
+ * original immutable core and LLM client; created agents are re-instantiated
+ * from their Provisioner spec.
+ */
+function restoreCheckpoint(
+    checkpoint: SimulationCheckpoint,
+    target: Pick<OrchestratorOptions, "agents" | "initialState" | "llmClient"> & {
+        activeAgents: Record<string, ActorAgent>;
+        createdSpecs: Record<string, NewAgentProvisioning>;
+    },
+): void {
+    const { agents, initialState, llmClient, activeAgents, createdSpecs } = target;
+
+    for (const agentId of Object.keys(activeAgents)) delete activeAgents[agentId];
+
+    for (const [agentId, saved] of Object.entries(checkpoint.agents)) {
+        if (saved.provisioning) {
+            activeAgents[agentId] = new ActorAgent({
+                archetypeId: agentId,
+                immutableCore: saved.provisioning.system_prompt,
+                mutableStrategy: saved.mutable_strategy,
+                llmClient,
+                hyperparameters: saved.hyperparameters,
+            });
+            createdSpecs[agentId] = saved.provisioning;
+            continue;
+        }
+
+        const original = agents[agentId];
+        if (!original) {
+            throw new Error(`Checkpoint references unknown primary actor: ${agentId}`);
+        }
+        const unchanged =
+            original.mutableStrategy === saved.mutable_strategy &&
+            JSON.stringify(original.hyperparameters) === JSON.stringify(saved.hyperparameters);
+        activeAgents[agentId] = unchanged
+            ? original
+            : original.withMutatedStrategy(saved.mutable_strategy, saved.hyperparameters);
+    }
+
+    initialState.scout_hypotheses = checkpoint.scout_hypotheses;
 }
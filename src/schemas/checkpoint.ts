@@ -0,0 +1,42 @@
+/**
+ * Checkpoint Schemas — Serialized orchestrator state for resuming long runs.
+ */
+import { z } from "zod/v4";
+import { ConvergenceHypothesisSummary } from "./state.js";
+import { NewAgentProvisioning } from "./meta.js";
+
+/**
+ * A single live agent as it stood at the end of a generation.
+ */
+export const CheckpointAgent = z.object({
+    mutable_strategy: z.string(),
+    hyperparameters: z.object({
+        temperature: z.number().optional(),
+        frequency_penalty: z.number().optional(),
+    }),
+    /** The Provisioner spec for created agents. Absent for primary actors. */
+    provisioning: NewAgentProvisioning.optional(),
+});
+export type CheckpointAgent = z.infer<typeof CheckpointAgent>;
+
+/**
+ * Everything `runFullSimulation` needs to continue a run from the next generation.
+ */
+export const SimulationCheckpoint = z.object({
+    run_id: z.string(),
+    /** The last fully completed generation. */
+    generation: z.number().int().min(0),
+    /** Active agents keyed by ID, in turn order. */
+    agents: z.record(z.string(), CheckpointAgent),
+    failed_archetypes: z.array(z.string()),
+    plateau_counter: z.number().int().min(0),
+    /** Generation of the last Provisioner creation attempt, for the creation cooldown. */
+    last_creation_generation: z.number().int().min(0).optional(),
+    /** The run seed. A resumed run keeps the seed it started with. */
+    seed: z.number().int().optional(),
+    scout_hypotheses: z.array(ConvergenceHypothesisSummary).optional(),
+    /** The Generations row of the last completed generation, when persisted to SQLite. */
+    last_generation_id: z.string().optional(),
+    saved_at: z.string(),
+});
+export type SimulationCheckpoint = z.infer<typeof SimulationCheckpoint>;
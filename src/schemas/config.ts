@@ -4,6 +4,42 @@
  * @see docs/explorer_agent.md §6 — Explorer Settings
  */
 import { z } from "zod/v4";
+import { StateSchema } from "./state.js";
+
+/** USD price of a model, per million tokens. */
+export const ModelPrice = z.object({
+    input_per_million_usd: z.number().nonnegative(),
+    output_per_million_usd: z.number().nonnegative(),
+});
+export type ModelPrice = z.infer<typeof ModelPrice>;
+
+/**
+ * The model one agent runs on. Omit `provider` to keep the run's default
+ * model and only change the temperature.
+ */
+export const ModelAssignment = z.object({
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    base_url: z.string().url().optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+}).refine((a) => a.provider !== undefined || (a.model === undefined && a.base_url === undefined), {
+    message: "A model or base_url assignment must name its provider.",
+});
+export type ModelAssignment = z.infer<typeof ModelAssignment>;
+
+/** Meta-agent roles that can be assigned their own model. Matches their cost roles. */
+export const MetaAgentRole = z.enum([
+    "judge",
+    "mutator",
+    "provisioner",
+    "capitalizer",
+    "summarizer",
+    "explorer",
+    "info_disruptor",
+    "tension_disruptor",
+]);
+export type MetaAgentRole = z.infer<typeof MetaAgentRole>;
 
 /**
  * The single configuration object controlling all tunable framework parameters.
@@ -15,14 +51,27 @@ export const FrameworkConfig = z.object({
     max_turns_per_episode: z.number().int().default(20),
     /** Hard token limit per episode (cost circuit breaker). */
     max_episode_tokens: z.number().int().default(50000),
+    /** Dollar cap across every LLM call in a run (all agent roles). Unset means no cap. */
+    // Enforced by docs/safety_and_sandboxing.md §3 — Hard Token Limits
+    max_run_cost_usd: z.number().positive().optional(),
+    /** Price overrides keyed by `provider/model` (or bare model ID), merged over the defaults. */
+    model_prices: z.record(z.string(), ModelPrice).default({}),
     /** Max concurrent episodes during an epoch or shadow trial. */
     max_concurrency: z.number().int().default(5),
+    /**
+     * Seed for framework-side randomness and provider sampling. With a mock
+     * model or a replayed cassette, a seeded run is fully reproducible. Unset:
+     * unseeded.
+     */
+    seed: z.number().int().optional(),
 
     // --- Mutation Settings ---
     /** Number of episodes per epoch. */
     epoch_size: z.number().int().default(10),
     /** Number of strategy variants generated per mutation cycle. */
     mutation_variants: z.number().int().default(3),
+    /** Token budget for the transcript excerpts of each failing episode in the mutation prompt. */
+    mutation_excerpt_token_budget: z.number().int().positive().default(800),
     /** Number of episodes per shadow trial. */
     shadow_trial_count: z.number().int().default(10),
     /** Delta required for a mutation to be accepted over baseline. */
@@ -49,6 +98,20 @@ export const FrameworkConfig = z.object({
     max_validation_retries: z.number().int().default(3),
     /** Forced concession penalties before episode termination. */
     forced_concession_threshold: z.number().int().default(2),
+    /**
+     * Types, bounds and read-only flags for state variables. Mutations that
+     * would break it are sent back to the actor to retry. Unset: any mutation goes.
+     */
+    // Enforced by docs/agent_design_and_state.md §5 — Declaring a State Schema
+    state_schema: StateSchema.optional(),
+    /**
+     * How a created agent's out-of-scope proposal is handled:
+     * "reject_mutations" drops the offending parts and plays the rest of the turn,
+     * "skip_turn" forfeits the whole turn, and "terminate" ends the episode with
+     * the `permission_violation` reason. Every violation counts as a penalty.
+     */
+    // Enforced by docs/self_creation_mechanics.md §2 — Permissions Binding
+    permission_violation_policy: z.enum(["reject_mutations", "skip_turn", "terminate"]).default("reject_mutations"),
 
     // --- Explorer Settings ---
     /** Run Explorer scan every S generations. */
@@ -63,5 +126,16 @@ export const FrameworkConfig = z.object({
     /** Summarization agent fires every N turns. */
     // Enforced by docs/context_management_and_summarization.md §2
     summarization_frequency: z.number().int().default(5),
+    /**
+     * Actor payload shape: "triaged" applies the tiered context stack, own-monologue
+     * recall and cold-field collapsing; "full" sends the whole transcript and state.
+     */
+    // Enforced by docs/context_management_and_summarization.md §1, §3, §4
+    context_mode: z.enum(["full", "triaged"]).default("triaged"),
+    /**
+     * Token budget for a triaged actor payload (system prompt included).
+     * Agents may override it via `contextTokenBudget`. Unset means no limit.
+     */
+    context_token_budget: z.number().int().positive().optional(),
 });
 export type FrameworkConfig = z.infer<typeof FrameworkConfig>;
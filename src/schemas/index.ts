@@ -3,7 +3,7 @@
  */
 
 // State
-export { StateMutation, ConvergenceHypothesisSummary, GenericStateObject } from "./state.js";
+export { StateMutation, StateVariableSpec, StateSchema, ConvergenceHypothesisSummary, GenericStateObject } from "./state.js";
 export type { StateMutation as StateMutationType, GenericStateObject as GenericStateObjectType } from "./state.js";
 
 // Actions
@@ -21,5 +21,8 @@ export {
 // Explorer schemas
 export { Ingredient, ConvergenceHypothesis } from "./explorer.js";
 
+// Checkpoints
+export { CheckpointAgent, SimulationCheckpoint } from "./checkpoint.js";
+
 // Configuration
-export { FrameworkConfig } from "./config.js";
+export { FrameworkConfig, ModelPrice, ModelAssignment, MetaAgentRole } from "./config.js";
@@ -7,14 +7,41 @@ import { z } from "zod/v4";
 /**
  * A single mutation proposed by an agent to modify the GenericStateObject.
  * @see docs/engineering_implementation.md §3 — ActionProposal Output Schema
+ * @see docs/agent_design_and_state.md §2A — state_mutations
  */
 export const StateMutation = z.object({
-    action: z.enum(["modify", "add"]),
-    path: z.string().describe("The generic path in the state object to modify"),
-    value: z.any().describe("The new value"),
+    action: z.enum(["modify", "add", "remove", "increment", "decrement", "append", "remove_from", "merge"]),
+    path: z.string().describe("The dot path in the state object to change; numeric segments index arrays, e.g. clauses.2.text"),
+    value: z.any().describe("The new value, the amount to increment/decrement by (default 1), the element to append/remove_from, or the object to merge. Omitted for remove."),
 });
 export type StateMutation = z.infer<typeof StateMutation>;
 
+/**
+ * Declares one state variable: its type and the values it may take.
+ * @see docs/agent_design_and_state.md §5 — Declaring a State Schema
+ */
+export const StateVariableSpec = z.object({
+    type: z.enum(["number", "integer", "string", "boolean", "array", "object"]),
+    description: z.string().optional(),
+    /** Inclusive bounds for numbers and integers. */
+    min: z.number().optional(),
+    max: z.number().optional(),
+    /** The only values the variable may take. */
+    enum: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    /** The variable must always be present. */
+    required: z.boolean().default(false),
+    /** No mutation may change the variable or anything below it. */
+    read_only: z.boolean().default(false),
+});
+export type StateVariableSpec = z.infer<typeof StateVariableSpec>;
+
+/**
+ * Variable specs keyed by their dot path within `variables`,
+ * e.g. "us_iran_parameters.sanctions_relief_percentage". Undeclared paths are unconstrained.
+ */
+export const StateSchema = z.record(z.string(), StateVariableSpec);
+export type StateSchema = z.infer<typeof StateSchema>;
+
 /**
  * Summary of an Explorer convergence hypothesis, injected into the state
  * for Primary Actors to debate.